@@ -0,0 +1,287 @@
+import { dirname, join, resolve } from 'node:path';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import {
+  Config,
+  DetectedChange,
+  ExportChangesOptions,
+  ExportOptions,
+  ExportProfile,
+  ExportResult,
+  PathExplanation,
+  SourceInfo,
+} from '../types/index.js';
+import { openRepo, getSourceInfo, getUserIdentity, GitRepo } from '../core/git.js';
+import { calculateStats, getManifestSummary } from '../core/manifest.js';
+import { createArchive, getArchiveSize } from '../core/archive.js';
+import { armorArchive } from '../core/armor.js';
+import { parseSize, splitArchive, validateVolumeSize } from '../core/volumes.js';
+import { encryptArchive, loadRecipientKey } from '../core/encryption.js';
+import { loadSigningKey, signArchive } from '../core/signature.js';
+import { scanForSecrets, ALLOW_MARKER } from '../core/secrets.js';
+import { loadConfig, getProfile } from '../core/config.js';
+import { addHistoryEntry } from '../core/history.js';
+import {
+  applyProfile,
+  collectArchiveEntries,
+  collectChanges,
+  createExportManifest,
+  getDefaultExcludes,
+  getExportBaseline,
+  listScanFiles,
+  renderMessageTemplate,
+} from '../core/export.js';
+import { createFileFilter, explainPath } from '../utils/filters.js';
+import { createSyncIgnore, SyncIgnore } from '../utils/syncignore.js';
+import { ensureParentDir, readFileBuffer, remove } from '../utils/fs.js';
+import { generateArchiveName, getRelativePath } from '../utils/paths.js';
+import { SyncKitError } from '../utils/errors.js';
+
+/**
+ * Repository, config and options an export runs with
+ */
+interface ExportContext {
+  repo: GitRepo;
+  config: Config;
+  source: SourceInfo;
+  /** Options with the profile's presets applied */
+  options: ExportOptions;
+  profile?: ExportProfile;
+  defaultExcludes: string[];
+  syncIgnore: SyncIgnore;
+}
+
+/**
+ * Export changes of a repository to an archive, as `sync-kit export` does.
+ * Without hooks nothing is asked or shown and options are decided as by
+ * `sync-kit export --quick`; possible secrets fail the export unless
+ * `allowSecrets` is set. Resolves to undefined when a hook cancels the export.
+ */
+export async function exportChanges(flags: ExportChangesOptions = {}): Promise<ExportResult | undefined> {
+  const { onProgress, onNotice } = flags;
+
+  onProgress?.({ phase: 'scan' });
+  const { repo, config, source, options, profile, defaultExcludes, syncIgnore } = await openExport(flags);
+
+  // Check the volume size before doing any work
+  let volumeSize: number | undefined;
+  if (options.split) {
+    if (options.armor) {
+      throw new SyncKitError('USAGE', '--split cannot be combined with --armor');
+    }
+    volumeSize = parseSize(options.split);
+    validateVolumeSize(volumeSize);
+  }
+
+  const armorFile = options.output && options.output !== '-' ? options.output : undefined;
+  if (options.armor && !armorFile && !flags.sendArmored) {
+    throw new SyncKitError('USAGE', 'Armored exports need an output file');
+  }
+
+  // Encryption set by the caller or by a profile needs a passphrase only the caller can give
+  if (options.encrypt && flags.passphrase === undefined && !flags.getPassphrase) {
+    const reason = flags.encrypt ? 'Encryption is enabled' : `Profile ${flags.profile} encrypts archives`;
+    throw new SyncKitError('USAGE', `${reason}, pass a passphrase`);
+  }
+
+  // Load keys up front so a bad key fails fast
+  const recipients = await Promise.all((options.recipients ?? []).map(loadRecipientKey));
+  const signingKey = options.sign
+    ? await loadSigningKey(options.sign === true ? undefined : options.sign)
+    : undefined;
+
+  // Detect changes; packed commits and bundles are based on the range base
+  const filter = createFileFilter(options.include, options.exclude, defaultExcludes, syncIgnore);
+  const collected = await collectChanges(repo, config, options, source, filter, repo.root);
+  const { changes, packed, bundle, previous } = collected;
+
+  flags.onChanges?.({
+    changes,
+    commits: packed?.commits,
+    bundle: bundle?.info,
+    previous: previous?.archiveId,
+  });
+  if (bundle && (options.include?.length || options.exclude?.length)) {
+    onNotice?.('Include/exclude filters do not apply to git bundles');
+  }
+
+  // The full snapshot is only scanned once it is chosen
+  let snapshot: DetectedChange[] | undefined;
+  const loadSnapshot = async (): Promise<DetectedChange[]> => {
+    if (!snapshot) {
+      onProgress?.({ phase: 'snapshot' });
+      snapshot = await collected.allFiles();
+      onProgress?.({ phase: 'snapshot', current: snapshot.length, total: snapshot.length });
+    }
+    return snapshot;
+  };
+
+  // Incremental exports only carry changes
+  let mode: 'changes' | 'full' = previous
+    ? 'changes'
+    : options.mode || (bundle && !bundle.base ? 'full' : config.defaultMode);
+  let selected = changes;
+
+  if (flags.selectChanges && !options.mode && !packed && !bundle && !previous) {
+    const selection = await flags.selectChanges(changes, loadSnapshot, config.defaultMode);
+    if (!selection) {
+      return undefined;
+    }
+    mode = selection === 'full' ? 'full' : 'changes';
+    selected = selection === 'full' ? changes : selection;
+  }
+
+  const finalChanges = mode === 'full' ? await loadSnapshot() : selected;
+
+  if (finalChanges.length === 0) {
+    throw new SyncKitError('NOTHING_TO_EXPORT', 'No files to export');
+  }
+
+  // Create manifest and collect what the archive carries besides working tree
+  // files; the message is set once it is known
+  const manifest = createExportManifest(finalChanges, source, mode, collected, undefined, flags.profile);
+  const extraEntries = await collectArchiveEntries(repo, manifest, collected, options.delta);
+
+  // Block the export before any prompt when anything it ships looks like it
+  // carries secrets, base versions and patches included
+  if (bundle) {
+    onNotice?.('Git bundles are not scanned for secrets');
+  } else {
+    onProgress?.({ phase: 'secrets' });
+    const findings = await scanForSecrets(
+      listScanFiles(finalChanges, repo.root, packed, extraEntries),
+      config.secrets
+    );
+    flags.onSecrets?.(findings);
+
+    if (findings.length > 0 && !options.allowSecrets) {
+      const files = [...new Set(findings.map((finding) => finding.file))].join(', ');
+      throw new SyncKitError(
+        'SECRETS_FOUND',
+        `Export blocked: possible secrets in ${files}; ` +
+          `remove them, mark false positives with ${ALLOW_MARKER}, or pass --allow-secrets`
+      );
+    }
+  }
+
+  // A profile template is offered as the message, or used as is without prompts
+  const template = profile?.message && renderMessageTemplate(profile.message, flags.profile!, source);
+  let message = options.message || template;
+  if (!options.message && flags.promptMessage) {
+    message = await flags.promptMessage(template || undefined);
+  }
+  manifest.message = message || undefined;
+
+  // Passphrase is asked for once everything else is settled
+  const passphrase = flags.passphrase ?? (options.encrypt ? await flags.getPassphrase?.() : undefined);
+
+  // Armored archives are built in a temp dir and shipped as text
+  const archiveName = generateArchiveName(mode);
+  const outputPath = options.armor
+    ? join(await mkdtemp(join(tmpdir(), 'sync-kit-')), archiveName)
+    : options.output || join(resolve(repo.root, profile?.outputDir ?? config.outputDir ?? '.'), archiveName);
+
+  const totalBytes = finalChanges.reduce((sum, change) => sum + (change.size || 0), 0);
+  let processedBytes = 0;
+  await createArchive(outputPath, manifest, repo.root, config.compressionLevel, extraEntries, (current, total) => {
+    const file = finalChanges[current - 1];
+    processedBytes += file?.size || 0;
+    onProgress?.({ phase: 'pack', current, total, item: file?.path, processedBytes, totalBytes });
+  });
+
+  // Sign the plain archive so the signature survives encryption and splitting
+  if (signingKey) {
+    onProgress?.({ phase: 'sign' });
+    await signArchive(outputPath, signingKey, config.compressionLevel, await getUserIdentity(repo));
+  }
+
+  if (passphrase || recipients.length > 0) {
+    onProgress?.({ phase: 'encrypt' });
+    const info = options.readableInfo ? getManifestSummary(manifest) : undefined;
+    await encryptArchive(outputPath, { passphrase, recipients }, info);
+  }
+
+  let archiveSize = await getArchiveSize(outputPath);
+  let archivePath = outputPath;
+  let volumes: string[] | undefined;
+
+  if (options.armor) {
+    // Armored text goes to the output file, else to the caller
+    const armored = armorArchive(await readFileBuffer(outputPath), archiveName);
+    await remove(dirname(outputPath));
+    archiveSize = Buffer.byteLength(armored);
+
+    if (armorFile) {
+      await ensureParentDir(armorFile);
+      await writeFile(armorFile, armored);
+      archivePath = armorFile;
+    } else {
+      archivePath = await flags.sendArmored!(armored);
+    }
+  } else if (volumeSize && archiveSize > volumeSize) {
+    // Volumes replace the archive; the first one is enough to import
+    volumes = await splitArchive(outputPath, volumeSize, manifest);
+    await remove(outputPath);
+    archivePath = volumes[0];
+  } else if (volumeSize) {
+    onNotice?.('Archive fits in a single volume, not split');
+  }
+
+  // History is kept at the repository root, wherever the export runs from
+  await addHistoryEntry(repo.root, config, {
+    type: 'export',
+    archivePath,
+    stats: calculateStats(finalChanges),
+    message: message || undefined,
+    profile: flags.profile,
+    archiveId: manifest.id,
+    baseline: getExportBaseline(manifest, collected),
+  });
+
+  return { manifest, archivePath, archiveSize, volumes };
+}
+
+/**
+ * Explain how the export filters treat paths given relative to the current
+ * directory, without exporting anything
+ */
+export async function explainPaths(paths: string[], flags: ExportChangesOptions = {}): Promise<PathExplanation[]> {
+  const { repo, options, defaultExcludes, syncIgnore } = await openExport(flags);
+  const cwd = flags.cwd ?? process.cwd();
+
+  return paths.map((path) =>
+    explainPath(
+      getRelativePath(resolve(cwd, path), repo.root),
+      options.include,
+      options.exclude,
+      defaultExcludes,
+      syncIgnore
+    )
+  );
+}
+
+/**
+ * Open the repository of an export with its config and profile applied
+ */
+async function openExport(flags: ExportChangesOptions): Promise<ExportContext> {
+  const repo = await openRepo(flags.cwd ?? process.cwd());
+  const source = await getSourceInfo(repo);
+  const { values: config } = await loadConfig(repo.root, {
+    defaultMode: flags.mode,
+    compressionLevel: flags.compression,
+  });
+  const profile = flags.profile ? getProfile(config, flags.profile) : undefined;
+  const options = profile ? applyProfile(flags, profile) : flags;
+
+  flags.onSource?.(source, profile);
+
+  return {
+    repo,
+    config,
+    source,
+    options,
+    profile,
+    defaultExcludes: getDefaultExcludes(config),
+    syncIgnore: createSyncIgnore(repo.root),
+  };
+}
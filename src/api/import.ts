@@ -0,0 +1,450 @@
+import {
+  BaseCommitCheck,
+  Config,
+  ConflictResolution,
+  FileOperation,
+  ImportArchiveOptions,
+  ImportPlan,
+  ImportResult,
+  Manifest,
+  ProgressCallback,
+  ProgressPhase,
+} from '../types/index.js';
+import { loadArchive, getManifestFromArchive, LoadedArchive } from '../core/archive.js';
+import { detectConflicts } from '../core/diff.js';
+import { createBackup, pruneBackups, removeBackup } from '../core/backup.js';
+import { applyTransaction } from '../core/transaction.js';
+import { mergeOperation } from '../core/merge.js';
+import { checkBaseCommit, fastForwardTo, getSourceInfo, GitRepo } from '../core/git.js';
+import { replayCommits } from '../core/commits.js';
+import { fetchBundle } from '../core/bundle.js';
+import { verifyArchiveSignature } from '../core/signature.js';
+import { verifyArchiveContent, verifyWorkingTree } from '../core/verify.js';
+import { getArchiveLimits, validateManifest } from '../core/validation.js';
+import { loadConfig } from '../core/config.js';
+import { addHistoryEntry } from '../core/history.js';
+import {
+  openTarget,
+  checkSignature,
+  checkPredecessor,
+  checkUnresolved,
+  resolveMergeable,
+  checkReplayable,
+  getBundleRefs,
+  getPolicyResolution,
+  splitSkipped,
+  mergeResolved,
+  getDryRunResult,
+  getContentSize,
+} from '../core/import.js';
+import { ZipReader } from '../utils/zip.js';
+import { SyncKitError } from '../utils/errors.js';
+
+/**
+ * Directory an archive is imported into, with its repository and config
+ */
+interface ImportTarget {
+  targetDir: string;
+  repo?: GitRepo;
+  config: Config;
+}
+
+/**
+ * Import an archive, as `sync-kit import` does. Without hooks nothing is
+ * asked or shown, and conflicts fail the import unless `onConflict` says
+ * how to resolve them. A rolled back import resolves with
+ * `committed: false`; a cancelled one with undefined.
+ */
+export async function importArchive(
+  source: string | undefined,
+  options: ImportArchiveOptions = {}
+): Promise<ImportResult | undefined> {
+  const passphrase = options.passphrase;
+
+  // Archive limits, backup location, retention and history come from the target's config
+  const { targetDir, repo } = await openTarget(options.target || process.cwd());
+  const { values: config } = await loadConfig(targetDir);
+
+  options.onProgress?.({ phase: 'load' });
+  const archive = await loadArchive(source, {
+    clipboard: options.clipboard,
+    identity: options.identity,
+    passphrase: passphrase !== undefined ? async () => passphrase : options.getPassphrase,
+    limits: getArchiveLimits(config, options),
+  });
+
+  try {
+    return await importLoadedArchive(archive, { targetDir, repo, config }, options);
+  } finally {
+    await archive.close();
+  }
+}
+
+/**
+ * Import an archive once loaded
+ */
+async function importLoadedArchive(
+  { zip, path: archivePath, volumes }: LoadedArchive,
+  { targetDir, repo, config }: ImportTarget,
+  options: ImportArchiveOptions
+): Promise<ImportResult | undefined> {
+  const { onProgress } = options;
+  const manifest = await getManifestFromArchive(zip);
+  const reportBytes = createByteProgress(manifest.operations, onProgress);
+
+  // A signature that does not match means the archive was tampered with
+  const signature = await verifyArchiveSignature(zip, options.trustedKeys);
+  options.onArchive?.(manifest, { path: archivePath, volumes: volumes?.volumes.length, signature });
+  checkSignature(signature, options.requireSignature);
+
+  // Every path is checked before anything is written, deleted or renamed
+  rejectUnsafeOperations(manifest, config, options);
+
+  // Fail fast when archive content does not match the manifest
+  const integrity = await verifyArchiveContent(
+    zip,
+    manifest,
+    (current, total, op) => onProgress?.({ phase: 'verify', current, total, item: op.path }),
+    (bytes, op) => reportBytes('verify', bytes, op)
+  );
+  options.onVerified?.(integrity, 'archive');
+  if (integrity.issues.length > 0) {
+    throw new SyncKitError(
+      'ARCHIVE_CORRUPTED',
+      `Archive is damaged or was modified: ${integrity.issues.length} problem(s) found`
+    );
+  }
+
+  options.onTarget?.(targetDir);
+
+  // Parents are checked against the target now that it is known
+  rejectUnsafeOperations(manifest, config, options, targetDir);
+
+  // Bundles are fetched into local refs instead of applied file by file
+  if (manifest.bundle) {
+    if (!repo) {
+      throw new SyncKitError('NOT_A_REPOSITORY', 'Bundle archives can only be imported into a git repository');
+    }
+    return importBundle(repo, zip, manifest, archivePath, config, options);
+  }
+
+  // Check that the target has the commit the archive was made against
+  let baseCheck: BaseCommitCheck | undefined;
+  if (repo) {
+    baseCheck = await checkBaseCommit(repo, manifest.source.commit);
+    options.onBaseCheck?.(baseCheck);
+
+    if (options.strict && !baseCheck.contains) {
+      throw new SyncKitError(
+        'BASE_COMMIT_MISSING',
+        `Target HEAD does not contain source commit ${manifest.source.commit} (--strict)`
+      );
+    }
+  } else if (options.strict) {
+    throw new SyncKitError(
+      'NOT_A_REPOSITORY',
+      'Cannot verify source commit: target is not a git repository (--strict)'
+    );
+  }
+
+  // Incremental archives only apply on top of the archive they continue,
+  // as recorded in the history of the target
+  await checkPredecessor(manifest, targetDir, config);
+
+  // Recreate packed commits instead of applying squashed changes
+  if (manifest.commits?.length) {
+    if (repo && baseCheck && !options.squash) {
+      return replayArchiveCommits(repo, zip, manifest, archivePath, baseCheck, config, options);
+    }
+    options.onNotice?.('Applying commits as squashed working tree changes');
+  }
+
+  if (options.dryRun) {
+    options.onPlan?.({ kind: 'operations', operations: manifest.operations });
+    return getDryRunResult(manifest.operations);
+  }
+
+  // Clean merges are applied, the rest is resolved by policy or by the caller
+  const conflicts = await detectConflicts(manifest.operations, targetDir, repo, zip);
+  options.onConflicts?.(conflicts);
+
+  const resolutions = new Map<string, ConflictResolution>();
+  const unresolved = resolveMergeable(conflicts, resolutions);
+  const policy = options.onConflict ?? (options.resolveConflict ? undefined : 'fail');
+
+  if (!policy) {
+    for (const [index, conflict] of unresolved.entries()) {
+      const op = manifest.operations.find((o) => o.path === conflict.path);
+      const canMerge = !!op && (await mergeOperation(zip, op, targetDir)) !== null;
+      const resolution = await options.resolveConflict!(conflict, {
+        index,
+        total: unresolved.length,
+        canMerge,
+        canOverwrite: !op?.delta,
+      });
+      resolutions.set(conflict.path, resolution);
+    }
+  } else if (policy === 'fail') {
+    checkUnresolved(unresolved.length);
+  } else {
+    for (const conflict of unresolved) {
+      const op = manifest.operations.find((o) => o.path === conflict.path);
+      const resolution = getPolicyResolution(policy, op);
+      if (policy === 'theirs' && resolution === 'skip') {
+        options.onNotice?.(`${conflict.path}: patch cannot be applied to the local version, skipping`);
+      }
+      resolutions.set(conflict.path, resolution);
+    }
+  }
+
+  // Three-way merge local and incoming versions
+  const { operations, skipped } = splitSkipped(manifest.operations, resolutions);
+  const { contents: mergedContents, merged: mergedOperations } = await mergeResolved(
+    zip,
+    operations,
+    resolutions,
+    targetDir
+  );
+  options.onMerged?.(mergedOperations);
+  const merged = mergedOperations.map(({ op }) => op);
+
+  // With every operation skipped nothing is written, yet the archive counts
+  // as imported so the next archive of its chain can follow
+  if (operations.length === 0) {
+    if (skipped.length > 0) {
+      options.onPlan?.({ kind: 'operations', operations });
+      await recordImport(manifest, archivePath, targetDir, config);
+    }
+    return { applied: [], skipped, merged: [], conflicts, committed: true };
+  }
+
+  if (!(await confirmPlan({ kind: 'operations', operations }, options))) {
+    return undefined;
+  }
+
+  // Backup is always needed for rollback, removed afterwards with noBackup
+  onProgress?.({ phase: 'backup' });
+  const backupPath = await createBackup(operations, targetDir, config, archivePath);
+  if (!options.noBackup) {
+    await pruneBackups(targetDir, config);
+  }
+  options.onBackup?.(backupPath);
+
+  const transaction = await applyTransaction(
+    zip,
+    operations,
+    targetDir,
+    backupPath,
+    mergedContents,
+    (current, total, op) => onProgress?.({ phase: 'apply', current, total, item: op.path }),
+    (bytes, op) => reportBytes('apply', bytes, op)
+  );
+
+  const failedPath = transaction.failedOperation?.path;
+  const result: ImportResult = {
+    applied: transaction.applied,
+    skipped,
+    merged: transaction.committed ? merged : [],
+    conflicts,
+    backupPath: options.noBackup ? undefined : backupPath,
+    committed: transaction.committed,
+    error: failedPath && transaction.error ? `${failedPath}: ${transaction.error}` : transaction.error,
+  };
+
+  if (!transaction.committed) {
+    return result;
+  }
+
+  // The backup is kept for recovery when the working tree does not match
+  const written = await verifyWorkingTree(transaction.applied, targetDir, new Set(merged.map((op) => op.path)));
+  options.onVerified?.(written, 'target');
+  if (written.issues.length > 0) {
+    return { ...result, backupPath, error: 'Working tree does not match the manifest' };
+  }
+
+  if (options.noBackup) {
+    await removeBackup(backupPath);
+  }
+
+  await recordImport(manifest, archivePath, targetDir, config);
+  return result;
+}
+
+/**
+ * Report bytes streamed while verifying or applying, counted per phase
+ * against the size of all file content in the manifest
+ */
+function createByteProgress(
+  operations: FileOperation[],
+  onProgress?: ProgressCallback
+): (phase: ProgressPhase, bytes: number, op: FileOperation) => void {
+  const totalBytes = getContentSize(operations);
+  const processed = new Map<ProgressPhase, number>();
+
+  return (phase, bytes, op) => {
+    const processedBytes = (processed.get(phase) ?? 0) + bytes;
+    processed.set(phase, processedBytes);
+    onProgress?.({ phase, item: op.path, processedBytes, totalBytes });
+  };
+}
+
+/**
+ * Refuse the archive when any operation path is unsafe
+ */
+function rejectUnsafeOperations(
+  manifest: Manifest,
+  config: Config,
+  options: ImportArchiveOptions,
+  targetDir?: string
+): void {
+  const rejected = validateManifest(manifest, config, targetDir);
+
+  if (rejected.length > 0) {
+    options.onRejected?.(rejected);
+    const paths = rejected.map((entry) => entry.path).join(', ');
+    throw new SyncKitError('UNSAFE_ARCHIVE', `Archive rejected: ${rejected.length} unsafe operation(s): ${paths}`);
+  }
+}
+
+/**
+ * Show the plan and ask to go on with it, when the caller asks
+ */
+async function confirmPlan(plan: ImportPlan, options: ImportArchiveOptions): Promise<boolean> {
+  options.onPlan?.(plan);
+  return !options.confirm || options.confirm(plan);
+}
+
+/**
+ * Replay packed commits on the current branch
+ */
+async function replayArchiveCommits(
+  repo: GitRepo,
+  zip: ZipReader,
+  manifest: Manifest,
+  archivePath: string,
+  baseCheck: BaseCommitCheck,
+  config: Config,
+  options: ImportArchiveOptions
+): Promise<ImportResult | undefined> {
+  const plan: ImportPlan = { kind: 'commits', commits: manifest.commits!, branch: baseCheck.targetBranch };
+
+  if (options.dryRun) {
+    options.onPlan?.(plan);
+    return getDryRunResult(manifest.operations);
+  }
+
+  await checkReplayable(repo, manifest, baseCheck);
+
+  if (!(await confirmPlan(plan, options))) {
+    return undefined;
+  }
+
+  const commits = await replayCommits(repo, zip, manifest.commits!, (current, total, commit) =>
+    options.onProgress?.({ phase: 'replay', current, total, item: commit.message.split('\n')[0] })
+  );
+
+  const result: ImportResult = {
+    applied: manifest.operations,
+    skipped: [],
+    merged: [],
+    conflicts: [],
+    committed: true,
+    commits,
+  };
+
+  // The replayed tip must match the manifest
+  const written = await verifyWorkingTree(manifest.operations, repo.root);
+  options.onVerified?.(written, 'target');
+  if (written.issues.length > 0) {
+    result.error = 'Working tree does not match the manifest';
+  }
+
+  await recordImport(manifest, archivePath, repo.root, config);
+  return result;
+}
+
+/**
+ * Fetch the embedded git bundle into refs/sync-kit/ and optionally fast-forward
+ */
+async function importBundle(
+  repo: GitRepo,
+  zip: ZipReader,
+  manifest: Manifest,
+  archivePath: string,
+  config: Config,
+  options: ImportArchiveOptions
+): Promise<ImportResult | undefined> {
+  const { branch } = await getSourceInfo(repo);
+  const { refs, sourceRef } = await getBundleRefs(repo, manifest);
+  const operations: FileOperation[] = options.fastForward ? manifest.operations : [];
+  const plan: ImportPlan = {
+    kind: 'bundle',
+    refs,
+    branch,
+    fastForward: options.fastForward ? sourceRef : undefined,
+  };
+
+  if (options.dryRun) {
+    options.onPlan?.(plan);
+    return getDryRunResult(operations);
+  }
+
+  if (!(await confirmPlan(plan, options))) {
+    return undefined;
+  }
+
+  options.onProgress?.({ phase: 'fetch' });
+  await fetchBundle(repo, zip, manifest.bundle!, refs);
+
+  let backupPath: string | undefined;
+
+  if (options.fastForward) {
+    if (!options.noBackup) {
+      options.onProgress?.({ phase: 'backup' });
+      backupPath = await createBackup(manifest.operations, repo.root, config, archivePath);
+      await pruneBackups(repo.root, config);
+      options.onBackup?.(backupPath);
+    }
+
+    options.onProgress?.({ phase: 'apply', item: sourceRef.local });
+    try {
+      await fastForwardTo(repo, sourceRef.local);
+    } catch (error) {
+      if (backupPath) {
+        await removeBackup(backupPath);
+      }
+      const message = error instanceof Error ? error.message.trim() : String(error);
+      throw new SyncKitError('FAST_FORWARD_FAILED', `Cannot fast-forward ${branch} to ${sourceRef.local}: ${message}`);
+    }
+  }
+
+  await recordImport(manifest, archivePath, repo.root, config);
+
+  return {
+    applied: operations,
+    skipped: [],
+    merged: [],
+    conflicts: [],
+    backupPath,
+    committed: true,
+  };
+}
+
+/**
+ * Add a successful import to the history of the target
+ */
+async function recordImport(
+  manifest: Manifest,
+  archivePath: string,
+  targetDir: string,
+  config: Config
+): Promise<void> {
+  await addHistoryEntry(targetDir, config, {
+    type: 'import',
+    archivePath,
+    stats: manifest.stats,
+    message: manifest.message,
+    profile: manifest.profile,
+    archiveId: manifest.id,
+  });
+}
@@ -0,0 +1,24 @@
+import { Manifest, ReadManifestOptions } from '../types/index.js';
+import { loadArchive, getManifestFromArchive } from '../core/archive.js';
+import { DEFAULT_CONFIG } from '../core/config.js';
+import { getArchiveLimits } from '../core/validation.js';
+
+/**
+ * Read the manifest of an archive file; armored, split and encrypted
+ * archives are read the same way `sync-kit preview` reads them. Archives
+ * must stay within the built-in limits unless the options raise them.
+ */
+export async function readManifest(source: string, options: ReadManifestOptions = {}): Promise<Manifest> {
+  const { passphrase } = options;
+  const { zip, close } = await loadArchive(source, {
+    identity: options.identity,
+    passphrase: passphrase !== undefined ? async () => passphrase : undefined,
+    limits: getArchiveLimits(DEFAULT_CONFIG, options),
+  });
+
+  try {
+    return await getManifestFromArchive(zip);
+  } finally {
+    await close();
+  }
+}
@@ -0,0 +1,40 @@
+import { CommanderError } from 'commander';
+import { createProgram } from './cli.js';
+import { isJsonMode, reportError, setJsonMode } from './ui/output.js';
+import { SyncKitError, EXIT_CODES, getExitCode } from './utils/errors.js';
+
+/**
+ * CLI entry point
+ */
+async function main(): Promise<void> {
+  const program = createProgram();
+  // Usage errors are raised before --json is parsed, so it is looked up directly
+  const json = process.argv.slice(2).includes('--json');
+
+  if (json) {
+    program.configureOutput({ writeErr: () => {} });
+  }
+
+  try {
+    await program.parseAsync(process.argv);
+  } catch (error) {
+    // Commander has already printed the help or version, and the usage error
+    // unless it is reported as JSON
+    if (error instanceof CommanderError) {
+      if (json && error.exitCode !== 0) {
+        setJsonMode(true);
+        reportError(new SyncKitError('USAGE', error.message.replace(/^error: /, '')));
+      }
+      process.exit(error.exitCode === 0 ? EXIT_CODES.success : EXIT_CODES.usage);
+    }
+
+    if (isJsonMode()) {
+      reportError(error);
+    } else {
+      console.error('Error:', error instanceof Error ? error.message : error);
+    }
+    process.exit(getExitCode(error));
+  }
+}
+
+main();
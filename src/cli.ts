@@ -1,8 +1,14 @@
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
 import { executeExport } from './commands/export.js';
 import { executeImport } from './commands/import.js';
 import { executePreview } from './commands/preview.js';
+import { executeVerify } from './commands/verify.js';
 import { executeHistory } from './commands/history.js';
+import { executeRestore } from './commands/restore.js';
+import { executeConfig } from './commands/config.js';
+import { executeProfiles } from './commands/profiles.js';
+import { setJsonMode, emitResult } from './ui/output.js';
+import { setInteractive } from './ui/prompts.js';
 
 const VERSION = '1.0.0';
 
@@ -15,7 +21,16 @@ export function createProgram(): Command {
   program
     .name('sync-kit')
     .description('CLI utility for transferring code changes between computers via text archives')
-    .version(VERSION);
+    .version(VERSION)
+    .option('--json', 'Print a single JSON result object instead of the interactive UI')
+    .option('--non-interactive', 'Never prompt; answers come from flags (default when stdin is not a terminal)')
+    .exitOverride()
+    .hook('preAction', () => {
+      const { json, nonInteractive } = program.opts();
+      setJsonMode(!!json);
+      // Prompts would hang in pipelines and cannot be seen in JSON mode
+      setInteractive(!json && !nonInteractive && !!process.stdin.isTTY);
+    });
 
   // Export command
   program
@@ -23,48 +38,128 @@ export function createProgram(): Command {
     .description('Export changes to an archive')
     .option('-c, --changes', 'Export only changed files (default)')
     .option('-f, --full', 'Export full repository snapshot')
+    .option('--since-last', 'Export only what changed since the previous export')
     .option('-q, --quick', 'Quick mode - no interactive prompts')
     .option('-o, --output <path>', 'Output archive path')
     .option('-m, --message <text>', 'Add a description message')
     .option('-e, --exclude <pattern...>', 'Exclude files matching pattern')
     .option('-i, --include <pattern...>', 'Include only files matching pattern')
+    .option('--delta', 'Store modified files as patches against the source commit')
+    .option('--commits <range>', 'Export commits in range (e.g. main..feature) for replay')
+    .option('--bundle [range]', 'Embed a git bundle of a ref range (default: full history of HEAD)')
+    .option('--armor', 'Produce a single text blob (to -o file, clipboard, or stdout with -o -)')
+    .option('--split <size>', 'Split the archive into volumes of at most this size (e.g. 20MB)')
+    .option('--encrypt', 'Encrypt the archive with a passphrase (or SYNC_KIT_PASSPHRASE)')
+    .option('--recipient <key...>', 'Encrypt the archive for X25519 public key files')
+    .option('--readable-info', 'Keep meta/info.txt readable in encrypted archives')
+    .option('--sign [key]', 'Sign the archive with an Ed25519 key (default: ~/.config/sync-kit/signing.pem)')
+    .option('--allow-secrets', 'Export even when possible secrets are found')
+    .option('--compression <level>', 'zlib compression level 0-9 (default: 9 or the config)', parseCompressionLevel)
+    .option('--explain <path...>', 'Show which rule includes or excludes paths, without exporting')
+    .option('-p, --profile <name>', 'Use a named export profile from the config')
     .action(async (opts) => {
-      await executeExport({
+      emitResult(await executeExport({
         mode: opts.full ? 'full' : opts.changes ? 'changes' : undefined,
         quick: opts.quick,
         output: opts.output,
         message: opts.message,
         exclude: opts.exclude,
         include: opts.include,
-      });
+        delta: opts.delta,
+        commits: opts.commits,
+        bundle: opts.bundle,
+        armor: opts.armor,
+        split: opts.split,
+        encrypt: opts.encrypt,
+        recipients: opts.recipient,
+        readableInfo: opts.readableInfo,
+        sign: opts.sign,
+        allowSecrets: opts.allowSecrets,
+        compression: opts.compression,
+        explain: opts.explain,
+        profile: opts.profile,
+        sinceLast: opts.sinceLast,
+      }));
     });
 
   // Import command
   program
-    .command('import <archive>')
-    .description('Import changes from an archive')
+    .command('import [archive]')
+    .description('Import changes from an archive (- reads from stdin)')
     .option('-t, --target <dir>', 'Target directory (default: current directory)')
     .option('-d, --dry-run', 'Preview changes without applying')
     .option('-n, --no-backup', 'Skip creating backup before import')
     .option('-f, --force', 'Force import without confirmations')
+    .option('--strict', 'Refuse to import when HEAD does not contain the source commit')
+    .option('--squash', 'Apply packed commits as working tree changes instead of replaying them')
+    .option('--ff', 'Fast-forward the current branch to the fetched bundle ref')
+    .option('--require-signature', 'Refuse archives not signed by a trusted key')
+    .option('--clipboard', 'Read an armored archive from the clipboard')
+    .option('--identity <key>', 'X25519 private key for encrypted archives')
+    .option('--trusted-keys <dir>', 'Directory of trusted Ed25519 public keys')
+    .option('--max-entry-size <size>', 'Largest uncompressed archive entry to accept (e.g. 1GB)')
+    .option('--max-total-size <size>', 'Largest uncompressed archive size to accept (e.g. 8GB)')
+    .addOption(
+      new Option('--on-conflict <policy>', 'Resolve conflicts without asking (default: fail when non-interactive)')
+        .choices(['fail', 'ours', 'theirs', 'skip'])
+    )
     .action(async (archive, opts) => {
-      await executeImport(archive, {
+      emitResult(await executeImport(archive, {
         target: opts.target,
         dryRun: opts.dryRun,
-        noBackup: opts.noBackup,
+        noBackup: opts.backup === false,
         force: opts.force,
-      });
+        strict: opts.strict,
+        squash: opts.squash,
+        fastForward: opts.ff,
+        requireSignature: opts.requireSignature,
+        clipboard: opts.clipboard,
+        identity: opts.identity,
+        trustedKeys: opts.trustedKeys,
+        maxEntrySize: opts.maxEntrySize,
+        maxTotalSize: opts.maxTotalSize,
+        onConflict: opts.onConflict,
+      }));
     });
 
   // Preview command
   program
-    .command('preview <archive>')
-    .description('Preview contents of an archive')
+    .command('preview [archive]')
+    .description('Preview contents of an archive (- reads from stdin)')
     .option('-c, --contents', 'Show file contents preview')
+    .option('--clipboard', 'Read an armored archive from the clipboard')
+    .option('--identity <key>', 'X25519 private key for encrypted archives')
+    .option('--trusted-keys <dir>', 'Directory of trusted Ed25519 public keys')
+    .option('--max-entry-size <size>', 'Largest uncompressed archive entry to accept (e.g. 1GB)')
+    .option('--max-total-size <size>', 'Largest uncompressed archive size to accept (e.g. 8GB)')
     .action(async (archive, opts) => {
-      await executePreview(archive, {
+      emitResult(await executePreview(archive, {
         contents: opts.contents,
-      });
+        clipboard: opts.clipboard,
+        identity: opts.identity,
+        trustedKeys: opts.trustedKeys,
+        maxEntrySize: opts.maxEntrySize,
+        maxTotalSize: opts.maxTotalSize,
+      }));
+    });
+
+  // Verify command
+  program
+    .command('verify [archive]')
+    .description('Check archive entries against the manifest hashes (- reads from stdin)')
+    .option('--clipboard', 'Read an armored archive from the clipboard')
+    .option('--identity <key>', 'X25519 private key for encrypted archives')
+    .option('--trusted-keys <dir>', 'Directory of trusted Ed25519 public keys')
+    .option('--max-entry-size <size>', 'Largest uncompressed archive entry to accept (e.g. 1GB)')
+    .option('--max-total-size <size>', 'Largest uncompressed archive size to accept (e.g. 8GB)')
+    .action(async (archive, opts) => {
+      emitResult(await executeVerify(archive, {
+        clipboard: opts.clipboard,
+        identity: opts.identity,
+        trustedKeys: opts.trustedKeys,
+        maxEntrySize: opts.maxEntrySize,
+        maxTotalSize: opts.maxTotalSize,
+      }));
     });
 
   // History command
@@ -73,9 +168,43 @@ export function createProgram(): Command {
     .description('Show sync history')
     .option('--clear', 'Clear all history')
     .action(async (opts) => {
-      await executeHistory({
+      emitResult(await executeHistory({
         clear: opts.clear,
-      });
+      }));
+    });
+
+  // Restore command
+  program
+    .command('restore [timestamp]')
+    .description('Restore the working tree from a pre-import backup')
+    .option('-l, --list', 'List available backups')
+    .option('--latest', 'Restore the most recent backup')
+    .option('-t, --target <dir>', 'Target directory (default: current directory)')
+    .option('-f, --force', 'Restore without confirmation')
+    .action(async (timestamp, opts) => {
+      emitResult(await executeRestore({
+        timestamp,
+        list: opts.list,
+        latest: opts.latest,
+        target: opts.target,
+        force: opts.force,
+      }));
+    });
+
+  // Config command
+  program
+    .command('config')
+    .description('Show the effective config and where each value comes from')
+    .action(async () => {
+      emitResult(await executeConfig());
+    });
+
+  // Profiles command
+  program
+    .command('profiles')
+    .description('List export profiles from the config')
+    .action(async () => {
+      emitResult(await executeProfiles());
     });
 
   // Quick export alias
@@ -83,11 +212,22 @@ export function createProgram(): Command {
     .command('q')
     .description('Quick export (alias for: export --quick --changes)')
     .action(async () => {
-      await executeExport({
+      emitResult(await executeExport({
         mode: 'changes',
         quick: true,
-      });
+      }));
     });
 
   return program;
 }
+
+/**
+ * Parse a zlib compression level given on the command line
+ */
+function parseCompressionLevel(value: string): number {
+  const level = Number(value);
+  if (!/^\d+$/.test(value) || level > 9) {
+    throw new InvalidArgumentError('Must be an integer from 0 to 9.');
+  }
+  return level;
+}
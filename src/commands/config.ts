@@ -0,0 +1,26 @@
+import { LoadedConfig } from '../types/index.js';
+import { loadConfig } from '../core/config.js';
+import { openTarget } from '../core/import.js';
+import { displayBanner } from '../ui/banner.js';
+import { displayConfig } from '../ui/config.js';
+import { reportError } from '../ui/output.js';
+import { getExitCode } from '../utils/errors.js';
+
+/**
+ * Execute config command: show the effective config and where each value comes from
+ */
+export async function executeConfig(): Promise<LoadedConfig | undefined> {
+  try {
+    displayBanner('Configuration');
+
+    // Outside a git repo config is looked up from the current directory
+    const { targetDir: dir } = await openTarget(process.cwd());
+    const config = await loadConfig(dir);
+    displayConfig(config);
+
+    return config;
+  } catch (error) {
+    reportError(error);
+    process.exit(getExitCode(error));
+  }
+}
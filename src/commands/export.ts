@@ -1,148 +1,151 @@
-import { join } from 'node:path';
-import { ExportOptions, DetectedChange } from '../types/index.js';
-import { initGit, getRepoRoot, getSourceInfo, detectChanges, getAllFiles } from '../core/git.js';
-import { createManifest, calculateStats } from '../core/manifest.js';
-import { createArchive, getArchiveSize } from '../core/archive.js';
-import { filterFiles, DEFAULT_EXCLUDES } from '../utils/filters.js';
-import { generateArchiveName } from '../utils/paths.js';
+import {
+  ExportOptions,
+  ExportResult,
+  ExportHooks,
+  PathExplanation,
+  ProgressCallback,
+  ProgressPhase,
+} from '../types/index.js';
+import { exportChanges, explainPaths } from '../api/export.js';
+import { calculateStats } from '../core/manifest.js';
 import { displayBanner, displayRepoInfo, displayExportSuccess } from '../ui/banner.js';
 import { displayStats } from '../ui/table.js';
 import { displayFileTree, FileEntry } from '../ui/tree.js';
-import { startSpinner, succeedSpinner, failSpinner } from '../ui/spinner.js';
+import { displayCommitList, displayBundleInfo } from '../ui/commits.js';
+import { displaySecretFindings } from '../ui/secrets.js';
+import { displayPathExplanations } from '../ui/explain.js';
+import { startSpinner, succeedSpinner, failSpinner, warnSpinner } from '../ui/spinner.js';
 import { DetailedProgressTracker } from '../ui/progress.js';
-import { promptExportMode, promptFileSelection, promptMessage, promptConfirm } from '../ui/prompts.js';
+import {
+  promptExportMode,
+  promptFileSelection,
+  promptMessage,
+  promptConfirm,
+  getPassphrase,
+  isInteractive,
+} from '../ui/prompts.js';
 import { logger } from '../ui/logger.js';
-import { addHistoryEntry } from './history.js';
+import { reportError, setStderrMode, writeData } from '../ui/output.js';
+import { SyncKitError, EXIT_CODES, getExitCode } from '../utils/errors.js';
 
 /**
  * Execute export command
  */
-export async function executeExport(options: ExportOptions): Promise<void> {
-  try {
-    // Display banner
-    displayBanner('Export Changes');
+export async function executeExport(flags: ExportOptions): Promise<ExportResult | PathExplanation[] | undefined> {
+  const { quick, explain, ...options } = flags;
+  const progress = createExportProgress();
+  let armor = options.armor;
+  let armored: string | undefined;
+  let copiedToClipboard = false;
 
-    // Initialize git
-    startSpinner('Scanning repository...');
-    await initGit(process.cwd());
-    const repoRoot = getRepoRoot();
-    const sourceInfo = await getSourceInfo();
-    succeedSpinner('Repository scanned');
-
-    // Display repo info
-    displayRepoInfo(sourceInfo);
-
-    // Detect changes
-    startSpinner('Detecting changes...');
-    let changes = await detectChanges();
-    let allFiles = await getAllFiles();
-
-    // Apply filters
-    const changedPaths = changes.map((c) => c.path);
-    const filteredChangedPaths = filterFiles(changedPaths, options.include, options.exclude);
-    changes = changes.filter((c) => filteredChangedPaths.includes(c.path));
-
-    const allPaths = allFiles.map((c) => c.path);
-    const filteredAllPaths = filterFiles(allPaths, options.include, options.exclude);
-    allFiles = allFiles.filter((c) => filteredAllPaths.includes(c.path));
-
-    succeedSpinner('Changes detected');
-
-    // Calculate stats
-    const changesStats = calculateStats(changes);
-    const fullStats = calculateStats(allFiles);
-
-    // Display changes as tree
-    const fileEntries: FileEntry[] = changes.map((c) => ({
-      path: c.path,
-      type: c.type,
-      size: c.size,
-      from: c.from,
-    }));
-    displayFileTree(fileEntries, { title: 'Changes Found', showIcons: true });
-    displayStats(changesStats);
-
-    // Determine mode
-    let mode: 'changes' | 'full' = options.mode || 'changes';
-    let selectedChanges: DetectedChange[] = changes;
-
-    if (!options.quick) {
-      // Interactive mode
-      if (changes.length === 0 && !options.mode) {
-        const proceed = await promptConfirm('No changes detected. Export full snapshot?', true);
-        if (!proceed) {
-          logger.info('Export cancelled');
-          return;
-        }
-        mode = 'full';
-      } else if (!options.mode) {
-        const selectedMode = await promptExportMode(changesStats, fullStats);
-
-        if (selectedMode === 'custom') {
-          selectedChanges = await promptFileSelection(changes);
-          mode = 'changes';
-        } else {
-          mode = selectedMode;
-        }
+  // Armored text written to stdout must not be mixed with the UI
+  if (options.output === '-') {
+    setStderrMode();
+  }
+
+  const hooks: ExportHooks = {
+    onSource: (source, profile) => {
+      succeedSpinner('Repository scanned');
+      displayRepoInfo(source);
+      if (flags.profile) {
+        logger.keyValue('Profile', profile?.description ? `${flags.profile} (${profile.description})` : flags.profile);
+      }
+      armor = options.armor ?? profile?.armor;
+      if (armor && !options.output) {
+        setStderrMode();
       }
-    }
 
-    // Get final list of changes
-    const finalChanges = mode === 'full' ? allFiles : selectedChanges;
+      if (!explain?.length) {
+        startSpinner('Detecting changes...');
+      }
+    },
 
-    if (finalChanges.length === 0) {
-      logger.warn('No files to export');
-      return;
-    }
+    onChanges: ({ changes, commits, bundle, previous }) => {
+      if (commits) {
+        succeedSpinner(`${commits.length} commit(s) packed`);
+        displayCommitList(commits);
+      } else if (bundle) {
+        succeedSpinner('Git bundle created');
+        displayBundleInfo(bundle);
+      } else if (previous) {
+        succeedSpinner(`Changes since export ${previous.slice(0, 8)} detected`);
+      } else {
+        succeedSpinner('Changes detected');
+      }
 
-    // Get message
-    let message = options.message;
-    if (!options.quick && !message) {
-      message = await promptMessage();
-    }
+      const fileEntries: FileEntry[] = changes.map((c) => ({
+        path: c.path,
+        type: c.type,
+        size: c.size,
+        from: c.from,
+      }));
+      displayFileTree(fileEntries, { title: 'Changes Found', showIcons: true });
+      displayStats(calculateStats(changes));
+    },
 
-    // Create manifest
-    const manifest = createManifest(finalChanges, sourceInfo, mode, message || undefined);
+    onNotice: (message) => logger.warn(message),
 
-    // Determine output path
-    const outputPath = options.output || join(repoRoot, generateArchiveName(mode));
+    onSecrets: (findings) => {
+      if (findings.length === 0) {
+        succeedSpinner('No secrets found');
+        return;
+      }
 
-    // Create archive with detailed progress
-    logger.newline();
-    const totalSize = finalChanges.reduce((sum, c) => sum + (c.size || 0), 0);
-    const progress = new DetailedProgressTracker({
-      total: finalChanges.length,
-      totalSize,
-      label: 'Packing files',
-    });
+      if (options.allowSecrets) {
+        warnSpinner(`${findings.length} possible secret(s) exported (--allow-secrets)`);
+      } else {
+        failSpinner('Possible secrets found');
+      }
+      displaySecretFindings(findings);
+      logger.newline();
+    },
 
-    await createArchive(outputPath, manifest, repoRoot, (current: number, total: number) => {
-      const file = finalChanges[current - 1];
-      progress.tick(file?.path || '', file?.size || 0);
-    });
+    // Without prompts everything is decided as in quick mode
+    ...(!quick && isInteractive() && { selectChanges, promptMessage }),
+
+    getPassphrase: () => getPassphrase(true),
+
+    // Armored text without an output file goes to the clipboard, else stdout
+    sendArmored: async (text) => {
+      if (!options.output && (await copyToClipboard(text))) {
+        copiedToClipboard = true;
+        return '(clipboard)';
+      }
+      armored = text;
+      return '(stdout)';
+    },
+  };
+
+  try {
+    // Display banner
+    displayBanner('Export Changes');
+
+    // Only explain how the filters treat the given paths
+    if (explain?.length) {
+      progress.onProgress({ phase: 'scan' });
+      const explanations = await explainPaths(explain, { ...options, ...hooks });
+      displayPathExplanations(explanations);
+      return explanations;
+    }
+
+    const result = await exportChanges({ ...options, ...hooks, onProgress: progress.onProgress });
+    progress.done();
+
+    if (!result) {
+      logger.info('Export cancelled');
+      return;
+    }
 
-    progress.complete();
-    succeedSpinner('Archive created');
-
-    // Get archive size
-    const archiveSize = await getArchiveSize(outputPath);
-    const stats = calculateStats(finalChanges);
-
-    // Try to copy to clipboard
-    let copiedToClipboard = false;
-    try {
-      const clipboardy = await import('clipboardy');
-      await clipboardy.default.write(outputPath);
-      copiedToClipboard = true;
-    } catch {
-      // Clipboard not available
+    if (!armor) {
+      copiedToClipboard = await copyToClipboard(result.archivePath);
     }
 
     // Display success card
+    const { stats } = result.manifest;
     displayExportSuccess({
-      archivePath: outputPath,
-      archiveSize,
-      fileCount: finalChanges.length,
+      archivePath: result.archivePath,
+      archiveSize: result.archiveSize,
+      fileCount: result.manifest.operations.length,
       stats: {
         added: stats.added,
         modified: stats.modified,
@@ -150,14 +153,121 @@ export async function executeExport(options: ExportOptions): Promise<void> {
         renamed: stats.renamed,
       },
       copiedToClipboard,
-      elapsed: progress.getElapsedFormatted(),
+      armored: armor,
+      volumes: result.volumes?.length ?? 0,
+      elapsed: progress.elapsed(),
     });
 
-    // Add to history
-    await addHistoryEntry('export', outputPath, stats, message || undefined);
+    if (armored) {
+      writeData(armored);
+    }
+
+    return { ...result, armored };
   } catch (error) {
+    if (error instanceof SyncKitError && error.code === 'NOTHING_TO_EXPORT') {
+      logger.warn(error.message);
+      process.exitCode = EXIT_CODES.nothingToDo;
+      return;
+    }
+
     failSpinner('Export failed');
-    logger.error(error instanceof Error ? error.message : String(error));
-    process.exit(1);
+    reportError(error);
+    process.exit(getExitCode(error));
+  }
+}
+
+/**
+ * Ask what to export: the changes, some of them or a full snapshot
+ */
+const selectChanges: ExportHooks['selectChanges'] = async (changes, loadSnapshot, defaultMode) => {
+  if (changes.length === 0) {
+    const proceed = await promptConfirm('No changes detected. Export full snapshot?', true);
+    return proceed ? 'full' : undefined;
+  }
+
+  const selectedMode = await promptExportMode(
+    calculateStats(changes),
+    async () => calculateStats(await loadSnapshot()),
+    defaultMode
+  );
+
+  if (selectedMode === 'custom') {
+    return promptFileSelection(changes);
+  }
+  return selectedMode === 'full' ? 'full' : changes;
+};
+
+/**
+ * Show export progress: a spinner per step and a progress bar while
+ * packing. A step is finished once the next one starts or `done` is called.
+ */
+function createExportProgress(): { onProgress: ProgressCallback; done: () => void; elapsed: () => string } {
+  let phase: ProgressPhase | undefined;
+  let packing: DetailedProgressTracker | undefined;
+  let finish: (() => void) | undefined;
+
+  const done = (): void => {
+    finish?.();
+    finish = undefined;
+  };
+
+  const onProgress: ProgressCallback = (event) => {
+    if (event.phase !== phase) {
+      done();
+      phase = event.phase;
+
+      switch (event.phase) {
+        case 'scan':
+          startSpinner('Scanning repository...');
+          break;
+        case 'snapshot':
+          startSpinner('Scanning all files...');
+          break;
+        case 'secrets':
+          startSpinner('Scanning for secrets...');
+          break;
+        case 'pack': {
+          logger.newline();
+          const tracker = new DetailedProgressTracker({
+            total: event.total ?? 0,
+            totalSize: event.totalBytes,
+            label: 'Packing files',
+          });
+          packing = tracker;
+          finish = () => tracker.complete();
+          break;
+        }
+        case 'sign':
+          startSpinner('Signing archive...');
+          finish = () => succeedSpinner('Archive signed');
+          break;
+        case 'encrypt':
+          startSpinner('Encrypting archive...');
+          finish = () => succeedSpinner('Archive encrypted');
+          break;
+      }
+    }
+
+    if (event.phase === 'snapshot' && event.current !== undefined) {
+      succeedSpinner(`${event.current} file(s) in snapshot`);
+    } else if (event.phase === 'pack') {
+      packing?.report(event);
+    }
+  };
+
+  return { onProgress, done, elapsed: () => packing?.getElapsedFormatted() ?? '0ms' };
+}
+
+/**
+ * Try to copy text to the clipboard
+ */
+async function copyToClipboard(text: string): Promise<boolean> {
+  try {
+    const clipboardy = await import('clipboardy');
+    await clipboardy.default.write(text);
+    return true;
+  } catch {
+    // Clipboard not available
+    return false;
   }
 }
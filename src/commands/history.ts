@@ -1,15 +1,14 @@
-import { join } from 'node:path';
-import { readFile, writeFile } from 'node:fs/promises';
-import { HistoryEntry, ExportStats } from '../types/index.js';
-import { fileExists, ensureDir, remove } from '../utils/fs.js';
+import { HistoryEntry } from '../types/index.js';
+import { loadHistory, clearHistory } from '../core/history.js';
+import { loadConfig } from '../core/config.js';
+import { openTarget } from '../core/import.js';
 import { displayBanner } from '../ui/banner.js';
 import { displayHistoryGraph, displayHistorySummary } from '../ui/history.js';
-import { startSpinner, succeedSpinner, failSpinner } from '../ui/spinner.js';
-import { promptConfirm } from '../ui/prompts.js';
+import { failSpinner } from '../ui/spinner.js';
+import { promptConfirm, isInteractive } from '../ui/prompts.js';
 import { logger } from '../ui/logger.js';
-
-const HISTORY_DIR = '.sync-history';
-const HISTORY_FILE = 'history.json';
+import { reportError } from '../ui/output.js';
+import { getExitCode } from '../utils/errors.js';
 
 interface HistoryOptions {
   clear?: boolean;
@@ -18,34 +17,36 @@ interface HistoryOptions {
 /**
  * Execute history command
  */
-export async function executeHistory(options: HistoryOptions): Promise<void> {
+export async function executeHistory(options: HistoryOptions): Promise<HistoryEntry[] | undefined> {
   try {
     // Display banner
     displayBanner('Sync History');
 
-    const historyPath = join(process.cwd(), HISTORY_DIR, HISTORY_FILE);
+    // History is kept at the repository root
+    const { targetDir: dir } = await openTarget(process.cwd());
+    const { values: config } = await loadConfig(dir);
 
     // Clear history if requested
     if (options.clear) {
-      const confirmed = await promptConfirm('Clear all history?', false);
+      const confirmed = !isInteractive() || (await promptConfirm('Clear all history?', false));
 
       if (confirmed) {
-        await remove(join(process.cwd(), HISTORY_DIR));
+        await clearHistory(dir, config);
         logger.success('History cleared');
-      } else {
-        logger.info('Cancelled');
+        return [];
       }
+      logger.info('Cancelled');
       return;
     }
 
     // Load history
-    const entries = await loadHistory(historyPath);
+    const entries = await loadHistory(dir, config);
 
     if (entries.length === 0) {
       logger.newline();
       logger.info('No sync history found');
       logger.newline();
-      return;
+      return entries;
     }
 
     // Display history with graph
@@ -53,56 +54,11 @@ export async function executeHistory(options: HistoryOptions): Promise<void> {
 
     // Display summary
     displayHistorySummary(entries);
+
+    return entries;
   } catch (error) {
     failSpinner('Failed to load history');
-    logger.error(error instanceof Error ? error.message : String(error));
-    process.exit(1);
-  }
-}
-
-/**
- * Load history from file
- */
-async function loadHistory(historyPath: string): Promise<HistoryEntry[]> {
-  if (!fileExists(historyPath)) {
-    return [];
+    reportError(error);
+    process.exit(getExitCode(error));
   }
-
-  const content = await readFile(historyPath, 'utf-8');
-  return JSON.parse(content);
-}
-
-/**
- * Save history to file
- */
-async function saveHistory(historyPath: string, entries: HistoryEntry[]): Promise<void> {
-  const dir = join(process.cwd(), HISTORY_DIR);
-  await ensureDir(dir);
-  await writeFile(historyPath, JSON.stringify(entries, null, 2));
-}
-
-/**
- * Add entry to history
- */
-export async function addHistoryEntry(
-  type: 'export' | 'import',
-  archivePath: string,
-  stats: ExportStats,
-  message?: string
-): Promise<void> {
-  const historyPath = join(process.cwd(), HISTORY_DIR, HISTORY_FILE);
-  const entries = await loadHistory(historyPath);
-
-  entries.unshift({
-    timestamp: new Date().toISOString(),
-    type,
-    archivePath,
-    stats,
-    message,
-  });
-
-  // Keep only last 50 entries
-  const trimmed = entries.slice(0, 50);
-
-  await saveHistory(historyPath, trimmed);
 }
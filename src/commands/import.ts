@@ -1,275 +1,405 @@
-import { join } from 'node:path';
-import { writeFile, unlink, rename } from 'node:fs/promises';
-import { ImportOptions, FileOperation, Conflict } from '../types/index.js';
-import { readArchive, getManifestFromArchive, getFileFromArchive } from '../core/archive.js';
-import { detectConflicts, sortOperationsForApply } from '../core/diff.js';
-import { createBackup } from '../core/backup.js';
-import { initGit, getRepoRoot } from '../core/git.js';
-import { fileExists, ensureParentDir, remove } from '../utils/fs.js';
-import { displayBanner, displayArchiveInfo, displayWarning, displayImportSuccess } from '../ui/banner.js';
+import {
+  ImportOptions,
+  ImportResult,
+  ImportHooks,
+  ImportPlan,
+  Conflict,
+  Manifest,
+  ProgressCallback,
+  ProgressPhase,
+} from '../types/index.js';
+import { importArchive } from '../api/import.js';
+import { getContentOperations } from '../core/import.js';
+import {
+  displayBanner,
+  displayArchiveInfo,
+  displayWarning,
+  displayImportSuccess,
+  displayReplaySuccess,
+  displayBundleSuccess,
+  displayBaseCommitCheck,
+  displaySignatureCheck,
+} from '../ui/banner.js';
 import { displayStats } from '../ui/table.js';
 import { displayFileTree, FileEntry } from '../ui/tree.js';
+import { displayCommitList, displayBundleInfo } from '../ui/commits.js';
 import { displayConflictsSummary, displayConflictCard } from '../ui/conflicts.js';
-import { startSpinner, succeedSpinner, failSpinner, warnSpinner } from '../ui/spinner.js';
+import { displayIntegrityReport, displayRejectedOperations } from '../ui/integrity.js';
+import { startSpinner, succeedSpinner, failSpinner } from '../ui/spinner.js';
 import { DetailedProgressTracker } from '../ui/progress.js';
-import { promptConfirm, promptConflictResolution } from '../ui/prompts.js';
+import { promptConfirm, promptConflictResolution, getPassphrase, isInteractive } from '../ui/prompts.js';
 import { logger } from '../ui/logger.js';
-import { addHistoryEntry } from './history.js';
+import { reportError } from '../ui/output.js';
+import { SyncKitError, EXIT_CODES, getExitCode } from '../utils/errors.js';
 
 /**
  * Execute import command
  */
 export async function executeImport(
-  archivePath: string,
+  source: string | undefined,
   options: ImportOptions
-): Promise<void> {
-  try {
-    // Display banner
-    displayBanner('Import Changes');
+): Promise<ImportResult | undefined> {
+  const { force, ...flags } = options;
+  let manifest: Manifest | undefined;
+  let archivePath = '';
+  let plan: ImportPlan | undefined;
+  const progress = createImportProgress(() => ({ plan, manifest }));
+
+  const hooks: ImportHooks = {
+    onArchive: (loaded, archive) => {
+      manifest = loaded;
+      archivePath = archive.path;
+      succeedSpinner(archive.volumes ? `Archive joined from ${archive.volumes} volumes` : 'Archive loaded');
+
+      displayArchiveInfo({
+        path: archive.path,
+        created: loaded.created,
+        message: loaded.message,
+        profile: loaded.profile,
+        previous: loaded.previous,
+      });
+      displaySignatureCheck(archive.signature);
+    },
 
-    // Validate archive exists
-    if (!fileExists(archivePath)) {
-      throw new Error(`Archive not found: ${archivePath}`);
-    }
+    onRejected: (rejected) => displayRejectedOperations(rejected),
 
-    // Read archive
-    startSpinner('Reading archive...');
-    const zip = readArchive(archivePath);
-    const manifest = getManifestFromArchive(zip);
-    succeedSpinner('Archive loaded');
-
-    // Display archive info
-    displayArchiveInfo({
-      path: archivePath,
-      created: manifest.created,
-      message: manifest.message,
-    });
+    onVerified: (report, stage) => {
+      progress.done();
 
-    // Display operations as tree
-    const fileEntries: FileEntry[] = manifest.operations.map((op) => ({
-      path: op.path,
-      type: op.type,
-      size: op.size,
-      from: op.from,
-    }));
-    displayFileTree(fileEntries, { title: 'Operations to Apply', showIcons: true });
-    displayStats(manifest.stats);
-
-    // Determine target directory
-    let targetDir = options.target || process.cwd();
-
-    // Try to initialize git if in a repo
-    try {
-      await initGit(targetDir);
-      targetDir = getRepoRoot();
-    } catch {
-      // Not a git repo, use target as-is
-    }
+      if (stage === 'target') {
+        if (report.issues.length > 0) {
+          displayIntegrityReport(report, 'Working tree does not match the manifest');
+        }
+        return;
+      }
 
-    logger.newline();
-    logger.keyValue('Target', targetDir);
+      if (report.issues.length > 0) {
+        logger.error('Archive verification failed');
+        displayIntegrityReport(report, 'Archive does not match its manifest');
+        return;
+      }
+      logger.success(`Archive verified (${report.checked} files)`);
+
+      // Display operations as tree
+      const fileEntries: FileEntry[] = manifest!.operations.map((op) => ({
+        path: op.path,
+        type: op.type,
+        size: op.size,
+        from: op.from,
+      }));
+      displayFileTree(fileEntries, { title: 'Operations to Apply', showIcons: true });
+      displayStats(manifest!.stats);
+
+      if (manifest!.commits?.length) {
+        displayCommitList(manifest!.commits);
+      }
+      if (manifest!.bundle) {
+        displayBundleInfo(manifest!.bundle);
+      }
+    },
 
-    // Dry run mode
-    if (options.dryRun) {
-      displayWarning('Dry run mode - no changes will be made');
+    onTarget: (targetDir) => {
       logger.newline();
-      logger.info('The following operations would be performed:');
+      logger.keyValue('Target', targetDir);
+    },
 
-      for (const op of manifest.operations) {
-        const targetPath = join(targetDir, op.path);
-        switch (op.type) {
-          case 'add':
-            logger.listItem(`Create: ${op.path}`);
-            break;
-          case 'modify':
-            logger.listItem(`Update: ${op.path}`);
-            break;
-          case 'delete':
-            logger.listItem(`Delete: ${op.path}`);
-            break;
-          case 'rename':
-            logger.listItem(`Rename: ${op.from} → ${op.path}`);
-            break;
-        }
-      }
+    onBaseCheck: (check) => displayBaseCommitCheck(check, manifest!.source.branch),
 
-      logger.newline();
-      return;
-    }
+    onNotice: (message) => logger.warn(message),
 
-    // Detect conflicts
-    startSpinner('Checking for conflicts...');
-    const conflicts = await detectConflicts(manifest.operations, targetDir);
+    onPlan: (next) => {
+      plan = next;
+      if (flags.dryRun) {
+        displayDryRun(next);
+      }
+    },
 
-    if (conflicts.length > 0) {
-      warnSpinner(`${conflicts.length} conflict(s) detected`);
+    // Without prompts the plan goes ahead
+    ...(!force && isInteractive() && { confirm: confirmPlan }),
 
-      // Display conflicts summary
+    onConflicts: (conflicts) => {
+      if (conflicts.length === 0) {
+        logger.success('No conflicts detected');
+        return;
+      }
+      logger.warn(`${conflicts.length} conflict(s) detected`);
       displayConflictsSummary(conflicts);
+    },
 
-      // Resolve conflicts
-      const resolutions = new Map<string, 'overwrite' | 'skip' | 'keep'>();
-
-      if (!options.force) {
-        for (let i = 0; i < conflicts.length; i++) {
-          const conflict = conflicts[i];
-          displayConflictCard(conflict, conflicts.length, i);
-          const resolution = await promptConflictResolution(
-            conflict.path,
-            getConflictReason(conflict)
-          );
-          resolutions.set(conflict.path, resolution);
-        }
-      } else {
-        // Force mode - overwrite all
-        for (const conflict of conflicts) {
-          resolutions.set(conflict.path, 'overwrite');
+    // Without a policy conflicts are resolved one by one
+    ...(isInteractive() && { resolveConflict }),
+
+    onMerged: (merged) => {
+      for (const { op, conflicts: markers } of merged) {
+        if (markers > 0) {
+          logger.warn(`${op.path}: merged with ${markers} conflict(s) marked`);
+        } else {
+          logger.success(`${op.path}: merged cleanly`);
         }
       }
+    },
 
-      // Filter out skipped operations
-      manifest.operations = manifest.operations.filter((op) => {
-        const resolution = resolutions.get(op.path);
-        return resolution !== 'skip' && resolution !== 'keep';
-      });
-    } else {
-      succeedSpinner('No conflicts detected');
-    }
+    onBackup: (backupPath) =>
+      succeedSpinner(flags.noBackup ? 'Rollback snapshot created' : `Backup created: ${backupPath}`),
 
-    // Confirm import
-    if (!options.force) {
-      const confirmed = await promptConfirm(
-        `Apply ${manifest.operations.length} operations?`,
-        true
-      );
-      if (!confirmed) {
-        logger.info('Import cancelled');
-        return;
-      }
-    }
+    getPassphrase: () => getPassphrase(),
+  };
 
-    // Create backup
-    let backupPath: string | undefined;
-    if (!options.noBackup) {
-      startSpinner('Creating backup...');
-      backupPath = await createBackup(manifest.operations, targetDir);
-      succeedSpinner(`Backup created: ${backupPath}`);
-    }
+  try {
+    // Display banner
+    displayBanner('Import Changes');
 
-    // Apply operations with detailed progress
-    logger.newline();
-    const sortedOps = sortOperationsForApply(manifest.operations);
-    const progress = new DetailedProgressTracker({
-      total: sortedOps.length,
-      label: 'Applying changes',
+    // --force takes the archive version of conflicting files
+    const result = await importArchive(source, {
+      ...flags,
+      ...hooks,
+      onConflict: flags.onConflict ?? (force ? 'theirs' : undefined),
+      onProgress: progress.onProgress,
     });
+    progress.done();
 
-    let applied = 0;
-    const errors: Array<{ op: FileOperation; error: string }> = [];
-
-    for (const op of sortedOps) {
-      try {
-        await applyOperation(zip, op, targetDir);
-        applied++;
-        progress.tick(op.path);
-      } catch (error) {
-        errors.push({
-          op,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
+    if (!result) {
+      logger.info('Import cancelled');
+      return;
     }
 
-    progress.complete();
-
-    if (errors.length > 0) {
-      warnSpinner(`Applied with ${errors.length} error(s)`);
+    if (flags.dryRun) {
+      logger.newline();
+      return result;
+    }
 
-      for (const { op, error } of errors) {
-        logger.error(`${op.path}: ${error}`);
+    // Reported as an error, also in JSON mode
+    if (!result.committed) {
+      logger.warn('Import rolled back - working tree restored to its previous state');
+      if (result.backupPath) {
+        logger.keyValue('Backup', result.backupPath);
       }
-    } else {
-      succeedSpinner('All changes applied');
+      throw new SyncKitError('IMPORT_ROLLED_BACK', `Import rolled back: ${result.error}`);
     }
 
-    // Display success card
-    displayImportSuccess({
-      archivePath: archivePath,
-      appliedCount: applied,
-      stats: {
-        added: manifest.stats.added,
-        modified: manifest.stats.modified,
-        deleted: manifest.stats.deleted,
-        renamed: manifest.stats.renamed,
-      },
-      backupPath,
-      elapsed: progress.getElapsedFormatted(),
-    });
+    // The working tree does not match the manifest, reported on verification
+    if (result.error) {
+      if (result.backupPath) {
+        logger.warn(`Backup kept for recovery: ${result.backupPath}`);
+      }
+      process.exitCode = EXIT_CODES.integrity;
+      return result;
+    }
 
-    // Add to history
-    await addHistoryEntry('import', archivePath, manifest.stats, manifest.message);
+    displayResult(result, plan, manifest!, archivePath, progress.elapsed());
+    return result;
   } catch (error) {
     failSpinner('Import failed');
-    logger.error(error instanceof Error ? error.message : String(error));
-    process.exit(1);
+    reportError(error);
+    process.exit(getExitCode(error));
   }
 }
 
 /**
- * Apply a single operation
+ * Display the success card of an import and set the exit code
  */
-async function applyOperation(
-  zip: ReturnType<typeof readArchive>,
-  op: FileOperation,
-  targetDir: string
-): Promise<void> {
-  const targetPath = join(targetDir, op.path);
-
-  switch (op.type) {
-    case 'add':
-    case 'modify': {
-      const content = getFileFromArchive(zip, op.path);
-      if (!content) {
-        throw new Error(`File not found in archive: ${op.path}`);
-      }
-      await ensureParentDir(targetPath);
-      await writeFile(targetPath, content, { mode: 0o644 });
+function displayResult(
+  result: ImportResult,
+  plan: ImportPlan | undefined,
+  manifest: Manifest,
+  archivePath: string,
+  elapsed: string
+): void {
+  switch (plan?.kind) {
+    case undefined:
+      logger.info('Nothing to apply');
+      process.exitCode = EXIT_CODES.nothingToDo;
       break;
-    }
 
-    case 'delete': {
-      if (fileExists(targetPath)) {
-        await remove(targetPath);
+    case 'operations':
+      displayImportSuccess({
+        archivePath,
+        appliedCount: result.applied.length,
+        stats: {
+          added: manifest.stats.added,
+          modified: manifest.stats.modified,
+          deleted: manifest.stats.deleted,
+          renamed: manifest.stats.renamed,
+        },
+        backupPath: result.backupPath,
+        elapsed,
+      });
+
+      if (result.skipped.length > 0) {
+        process.exitCode = EXIT_CODES.partial;
       }
       break;
+
+    case 'commits': {
+      const created = result.commits!;
+      displayReplaySuccess({
+        archivePath,
+        commitCount: created.length,
+        branch: plan.branch,
+        head: created[created.length - 1].slice(0, 7),
+        stats: manifest.stats,
+        elapsed,
+      });
+      break;
     }
 
-    case 'rename': {
-      if (op.from) {
-        const fromPath = join(targetDir, op.from);
+    case 'bundle':
+      displayBundleSuccess({
+        archivePath,
+        refs: plan.refs.map((ref) => ref.local),
+        branch: plan.fastForward ? `${plan.branch} (${plan.fastForward.hash.slice(0, 7)})` : undefined,
+        backupPath: result.backupPath,
+      });
+      break;
+  }
+}
 
-        // Get content from archive (it has the new content)
-        const content = getFileFromArchive(zip, op.path);
+/**
+ * List what a dry run would do
+ */
+function displayDryRun(plan: ImportPlan): void {
+  displayWarning('Dry run mode - no changes will be made');
+  logger.newline();
 
-        if (content) {
-          // Delete old file
-          if (fileExists(fromPath)) {
-            await remove(fromPath);
-          }
-          // Write new file
-          await ensureParentDir(targetPath);
-          await writeFile(targetPath, content, { mode: 0o644 });
-        } else if (fileExists(fromPath)) {
-          // Just rename if no content in archive
-          await ensureParentDir(targetPath);
-          await rename(fromPath, targetPath);
+  switch (plan.kind) {
+    case 'operations':
+      logger.info('The following operations would be performed:');
+
+      for (const op of plan.operations) {
+        switch (op.type) {
+          case 'add':
+            logger.listItem(`Create: ${op.path}`);
+            break;
+          case 'modify':
+            logger.listItem(`Update: ${op.path}`);
+            break;
+          case 'delete':
+            logger.listItem(`Delete: ${op.path}`);
+            break;
+          case 'rename':
+            logger.listItem(`Rename: ${op.from} → ${op.path}`);
+            break;
+          case 'chmod':
+            logger.listItem(`Chmod: ${op.path} (${op.mode})`);
+            break;
         }
       }
       break;
+
+    case 'commits':
+      logger.info(`The following commits would be recreated on ${plan.branch}:`);
+
+      for (const commit of plan.commits) {
+        logger.listItem(`${commit.hash.slice(0, 7)} ${commit.message.split('\n')[0]}`);
+      }
+      break;
+
+    case 'bundle':
+      logger.info('The following refs would be fetched:');
+
+      for (const ref of plan.refs) {
+        logger.listItem(`${ref.name} → ${ref.local} (${ref.hash.slice(0, 7)})`);
+      }
+      if (plan.fastForward) {
+        logger.listItem(`Fast-forward ${plan.branch} to ${plan.fastForward.local}`);
+      }
+      break;
+  }
+}
+
+/**
+ * Ask how to resolve a conflict, showing it as a card
+ */
+const resolveConflict: ImportHooks['resolveConflict'] = async (conflict, { index, total, canMerge, canOverwrite }) => {
+  displayConflictCard(conflict, total, index);
+  return promptConflictResolution(conflict.path, getConflictReason(conflict), canMerge, canOverwrite);
+};
+
+/**
+ * Ask to go on with the plan
+ */
+async function confirmPlan(plan: ImportPlan): Promise<boolean> {
+  switch (plan.kind) {
+    case 'operations':
+      return promptConfirm(`Apply ${plan.operations.length} operations?`, true);
+    case 'commits':
+      return promptConfirm(`Recreate ${plan.commits.length} commit(s) on ${plan.branch}?`, true);
+    case 'bundle': {
+      const action = plan.fastForward ? ` and fast-forward ${plan.branch}` : '';
+      return promptConfirm(`Fetch ${plan.refs.length} ref(s)${action}?`, true);
     }
   }
 }
 
+/**
+ * Show import progress: a spinner per step and a progress bar for steps
+ * that go file by file or commit by commit. A step is finished once the
+ * next one starts or `done` is called.
+ */
+function createImportProgress(
+  getState: () => { plan?: ImportPlan; manifest?: Manifest }
+): { onProgress: ProgressCallback; done: () => void; elapsed: () => string } {
+  let phase: ProgressPhase | undefined;
+  let tracker: DetailedProgressTracker | undefined;
+  let finish: (() => void) | undefined;
+
+  const done = (): void => {
+    finish?.();
+    finish = undefined;
+  };
+
+  const track = (label: string, total: number): void => {
+    const started = new DetailedProgressTracker({ total, label });
+    logger.newline();
+    tracker = started;
+    finish = () => started.complete();
+  };
+
+  const onProgress: ProgressCallback = (event) => {
+    const { plan, manifest } = getState();
+
+    if (event.phase !== phase) {
+      done();
+      phase = event.phase;
+
+      switch (event.phase) {
+        case 'load':
+          startSpinner('Reading archive...');
+          break;
+        case 'verify':
+          track('Verifying archive', getContentOperations(manifest?.operations ?? []).length);
+          break;
+        case 'backup':
+          startSpinner('Creating backup...');
+          break;
+        case 'apply':
+          if (plan?.kind === 'bundle') {
+            startSpinner(`Fast-forwarding ${plan.branch}...`);
+            finish = () => succeedSpinner(`${plan.branch} fast-forwarded`);
+          } else {
+            track('Applying changes', plan?.kind === 'operations' ? plan.operations.length : 0);
+          }
+          break;
+        case 'replay':
+          track('Replaying commits', plan?.kind === 'commits' ? plan.commits.length : 0);
+          break;
+        case 'fetch':
+          startSpinner('Fetching bundle...');
+          if (plan?.kind === 'bundle') {
+            finish = () => succeedSpinner(`${plan.refs.length} ref(s) fetched`);
+          }
+          break;
+      }
+    }
+
+    if (event.phase === 'verify' || event.phase === 'replay' || (event.phase === 'apply' && plan?.kind !== 'bundle')) {
+      tracker?.report(event);
+    }
+  };
+
+  return { onProgress, done, elapsed: () => tracker?.getElapsedFormatted() ?? '0ms' };
+}
+
 /**
  * Get human-readable conflict reason
  */
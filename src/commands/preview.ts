@@ -1,34 +1,59 @@
-import { PreviewOptions } from '../types/index.js';
-import { readArchive, getManifestFromArchive, getFileFromArchive, listArchiveEntries, getArchiveSize } from '../core/archive.js';
-import { fileExists } from '../utils/fs.js';
-import { displayBanner, displayArchiveInfo } from '../ui/banner.js';
+import { PreviewOptions, PreviewResult } from '../types/index.js';
+import {
+  loadArchive,
+  getManifestFromArchive,
+  getFileHeadFromArchive,
+  getPatchFromArchive,
+  listArchiveEntries,
+  LoadedArchive,
+} from '../core/archive.js';
+import { describeBinary, detectEncoding } from '../utils/encoding.js';
+import { getArchiveFilePath } from '../utils/paths.js';
+import { verifyArchiveSignature } from '../core/signature.js';
+import { loadConfig } from '../core/config.js';
+import { openTarget } from '../core/import.js';
+import { getArchiveLimits } from '../core/validation.js';
+import { displayBanner, displayArchiveInfo, displaySignatureCheck } from '../ui/banner.js';
 import { displayOperationsTable, displayStats } from '../ui/table.js';
 import { startSpinner, succeedSpinner, failSpinner } from '../ui/spinner.js';
+import { displayCommitList, displayBundleInfo } from '../ui/commits.js';
+import { getPassphrase } from '../ui/prompts.js';
 import { logger } from '../ui/logger.js';
+import { reportError } from '../ui/output.js';
+import { getExitCode } from '../utils/errors.js';
 import { colors, symbols } from '../ui/theme.js';
 
+/** Bytes of each file read for the contents preview */
+const PREVIEW_SIZE = 64 * 1024;
+
 /**
  * Execute preview command
  */
 export async function executePreview(
-  archivePath: string,
+  source: string | undefined,
   options: PreviewOptions
-): Promise<void> {
+): Promise<PreviewResult | undefined> {
+  let archive: LoadedArchive | undefined;
+
   try {
     // Display banner
     displayBanner('Preview Archive');
 
-    // Validate archive exists
-    if (!fileExists(archivePath)) {
-      throw new Error(`Archive not found: ${archivePath}`);
-    }
+    // Read archive (armored archives are verified before anything else)
+    // Archive limits come from the config of the current repository
+    const { targetDir } = await openTarget(process.cwd());
+    const { values: config } = await loadConfig(targetDir);
 
-    // Read archive
     startSpinner('Reading archive...');
-    const zip = readArchive(archivePath);
-    const manifest = getManifestFromArchive(zip);
-    const archiveSize = await getArchiveSize(archivePath);
-    succeedSpinner('Archive loaded');
+    archive = await loadArchive(source, {
+      clipboard: options.clipboard,
+      identity: options.identity,
+      passphrase: () => getPassphrase(),
+      limits: getArchiveLimits(config, options),
+    });
+    const { zip, path: archivePath, size: archiveSize, volumes } = archive;
+    const manifest = await getManifestFromArchive(zip);
+    succeedSpinner(volumes ? `Archive joined from ${volumes.volumes.length} volumes` : 'Archive loaded');
 
     // Display archive info
     displayArchiveInfo({
@@ -36,7 +61,11 @@ export async function executePreview(
       created: manifest.created,
       size: archiveSize,
       message: manifest.message,
+      profile: manifest.profile,
+      previous: manifest.previous,
     });
+    const signature = await verifyArchiveSignature(zip, options.trustedKeys);
+    displaySignatureCheck(signature);
 
     // Display source info
     logger.newline();
@@ -51,6 +80,13 @@ export async function executePreview(
     displayOperationsTable(manifest.operations);
     displayStats(manifest.stats);
 
+    if (manifest.commits?.length) {
+      displayCommitList(manifest.commits);
+    }
+    if (manifest.bundle) {
+      displayBundleInfo(manifest.bundle);
+    }
+
     // Show file contents if requested
     if (options.contents) {
       logger.newline();
@@ -61,12 +97,29 @@ export async function executePreview(
           continue;
         }
 
-        const content = getFileFromArchive(zip, op.path);
-        if (!content) continue;
+        // Patched files show their patch, binary files a placeholder; only
+        // the start of other files is read
+        let text: string;
+        let lineCount: number;
+
+        if (op.delta) {
+          const patch = await getPatchFromArchive(zip, op.path);
+          if (!patch) continue;
+          text = patch;
+          lineCount = patch.split('\n').length;
+        } else if (op.encoding === 'base64') {
+          if (!zip.getEntry(getArchiveFilePath(op.path))) continue;
+          text = `(${describeBinary(op.size ?? 0)})`;
+          lineCount = 1;
+        } else {
+          const content = await getFileHeadFromArchive(zip, op.path, PREVIEW_SIZE, op.encoding);
+          if (!content) continue;
+          const binary = detectEncoding(content.head) === 'base64';
+          text = binary ? `(${describeBinary(op.size ?? content.head.length)})` : content.head.toString('utf-8');
+          lineCount = binary ? 1 : content.lines;
+        }
 
-        const text = content.toString('utf-8');
-        const lines = text.split('\n');
-        const previewLines = lines.slice(0, 10);
+        const previewLines = text.split('\n').slice(0, 10);
 
         logger.newline();
         logger.log(`  ${colors.bold(op.path)}`);
@@ -76,8 +129,8 @@ export async function executePreview(
           logger.log(`  ${colors.dim(symbols.vertical)} ${line.substring(0, 80)}`);
         }
 
-        if (lines.length > 10) {
-          logger.log(colors.dim(`  ${symbols.vertical} ... (${lines.length - 10} more lines)`));
+        if (lineCount > 10) {
+          logger.log(colors.dim(`  ${symbols.vertical} ... (${lineCount - 10} more lines)`));
         }
 
         logger.log(colors.dim(`  ${symbols.corner}${'─'.repeat(49)}`));
@@ -102,9 +155,13 @@ export async function executePreview(
     }
 
     logger.newline();
+
+    return { manifest, entries, signature };
   } catch (error) {
     failSpinner('Preview failed');
-    logger.error(error instanceof Error ? error.message : String(error));
-    process.exit(1);
+    reportError(error);
+    process.exit(getExitCode(error));
+  } finally {
+    await archive?.close();
   }
 }
@@ -0,0 +1,27 @@
+import { ExportProfile } from '../types/index.js';
+import { loadConfig } from '../core/config.js';
+import { openTarget } from '../core/import.js';
+import { displayBanner } from '../ui/banner.js';
+import { displayProfiles } from '../ui/config.js';
+import { reportError } from '../ui/output.js';
+import { getExitCode } from '../utils/errors.js';
+
+/**
+ * Execute profiles command: list export profiles from the config
+ */
+export async function executeProfiles(): Promise<Record<string, ExportProfile> | undefined> {
+  try {
+    displayBanner('Export Profiles');
+
+    // Outside a git repo config is looked up from the current directory
+    const { targetDir: dir } = await openTarget(process.cwd());
+    const config = await loadConfig(dir);
+    const source = config.sources.profiles;
+    displayProfiles(config.values.profiles, source === 'default' ? undefined : config.files[source as 'user' | 'repo']);
+
+    return config.values.profiles;
+  } catch (error) {
+    reportError(error);
+    process.exit(getExitCode(error));
+  }
+}
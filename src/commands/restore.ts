@@ -0,0 +1,79 @@
+import { RestoreOptions, BackupInfo } from '../types/index.js';
+import { listBackups, getBackupInfo, findBackup, restoreBackup } from '../core/backup.js';
+import { loadConfig } from '../core/config.js';
+import { openTarget } from '../core/import.js';
+import { displayBanner, displaySuccessFooter } from '../ui/banner.js';
+import { displayBackupList, displayBackupDetails } from '../ui/backups.js';
+import { startSpinner, succeedSpinner, failSpinner } from '../ui/spinner.js';
+import { promptConfirm, promptBackupSelection, isInteractive } from '../ui/prompts.js';
+import { logger } from '../ui/logger.js';
+import { reportError } from '../ui/output.js';
+import { SyncKitError, getExitCode } from '../utils/errors.js';
+
+/**
+ * Execute restore command
+ */
+export async function executeRestore(options: RestoreOptions): Promise<BackupInfo | BackupInfo[] | undefined> {
+  try {
+    // Display banner
+    displayBanner('Restore Backup');
+
+    // Determine target directory, the repository root when in a repo
+    const { targetDir } = await openTarget(options.target || process.cwd());
+    const { values: config } = await loadConfig(targetDir);
+    const backupPaths = await listBackups(targetDir, config);
+
+    if (backupPaths.length === 0) {
+      logger.newline();
+      logger.info('No backups found');
+      logger.newline();
+      return [];
+    }
+
+    const backups = await Promise.all(backupPaths.map(getBackupInfo));
+
+    // List mode
+    if (options.list) {
+      displayBackupList(backups);
+      return backups;
+    }
+
+    // Select backup
+    let backup: BackupInfo;
+    if (options.timestamp) {
+      backup = await getBackupInfo(await findBackup(targetDir, config, options.timestamp));
+    } else if (options.latest) {
+      backup = backups[0];
+    } else if (options.force || !isInteractive()) {
+      throw new SyncKitError('USAGE', 'Specify a backup timestamp or --latest when using --force or --non-interactive');
+    } else {
+      backup = await promptBackupSelection(backups);
+    }
+
+    displayBackupDetails(backup);
+    logger.newline();
+    logger.keyValue('Target', targetDir);
+
+    // Confirm restore
+    if (!options.force && isInteractive()) {
+      logger.newline();
+      const confirmed = await promptConfirm('Restore this backup?', true);
+      if (!confirmed) {
+        logger.info('Restore cancelled');
+        return;
+      }
+    }
+
+    startSpinner('Restoring backup...');
+    await restoreBackup(backup.path, targetDir);
+    succeedSpinner('Backup restored');
+
+    displaySuccessFooter('Working tree restored', backup.path);
+
+    return backup;
+  } catch (error) {
+    failSpinner('Restore failed');
+    reportError(error);
+    process.exit(getExitCode(error));
+  }
+}
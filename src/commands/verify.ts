@@ -0,0 +1,95 @@
+import { VerifyOptions, VerifyResult } from '../types/index.js';
+import { loadArchive, getManifestFromArchive, LoadedArchive } from '../core/archive.js';
+import { verifyArchiveSignature } from '../core/signature.js';
+import { loadConfig } from '../core/config.js';
+import { verifyArchiveContent } from '../core/verify.js';
+import { getArchiveLimits, validateManifest } from '../core/validation.js';
+import { openTarget, getContentOperations, getContentSize } from '../core/import.js';
+import { displayBanner, displayArchiveInfo, displaySignatureCheck } from '../ui/banner.js';
+import { displayIntegrityReport, displayRejectedOperations } from '../ui/integrity.js';
+import { startSpinner, succeedSpinner, failSpinner } from '../ui/spinner.js';
+import { DetailedProgressTracker } from '../ui/progress.js';
+import { getPassphrase } from '../ui/prompts.js';
+import { logger } from '../ui/logger.js';
+import { reportError } from '../ui/output.js';
+import { EXIT_CODES, getExitCode } from '../utils/errors.js';
+
+/**
+ * Execute verify command
+ */
+export async function executeVerify(
+  source: string | undefined,
+  options: VerifyOptions
+): Promise<VerifyResult | undefined> {
+  let archive: LoadedArchive | undefined;
+
+  try {
+    // Display banner
+    displayBanner('Verify Archive');
+
+    // Read archive (armored and split archives are checked by checksum while loading)
+    // Archive limits and protected paths come from the config of the current repository
+    const { targetDir } = await openTarget(process.cwd());
+    const { values: config } = await loadConfig(targetDir);
+
+    startSpinner('Reading archive...');
+    archive = await loadArchive(source, {
+      clipboard: options.clipboard,
+      identity: options.identity,
+      passphrase: () => getPassphrase(),
+      limits: getArchiveLimits(config, options),
+    });
+    const { zip, path: archivePath, size: archiveSize, volumes } = archive;
+    const manifest = await getManifestFromArchive(zip);
+    succeedSpinner(volumes ? `Archive joined from ${volumes.volumes.length} volumes` : 'Archive loaded');
+
+    // Display archive info
+    displayArchiveInfo({
+      path: archivePath,
+      created: manifest.created,
+      size: archiveSize,
+      message: manifest.message,
+      profile: manifest.profile,
+      previous: manifest.previous,
+    });
+
+    const signature = await verifyArchiveSignature(zip, options.trustedKeys);
+    displaySignatureCheck(signature);
+
+    // Re-hash every entry against the manifest
+    logger.newline();
+    const progress = new DetailedProgressTracker({
+      total: getContentOperations(manifest.operations).length,
+      totalSize: getContentSize(manifest.operations),
+      label: 'Verifying entries',
+    });
+    const report = await verifyArchiveContent(
+      zip,
+      manifest,
+      (_current, _total, op) => progress.tick(op.path),
+      (bytes, op) => progress.advance(bytes, op.path)
+    );
+    const rejected = validateManifest(manifest, config);
+    progress.complete();
+
+    if (report.issues.length > 0 || rejected.length > 0 || signature.status === 'invalid') {
+      logger.error('Verification failed');
+      displayIntegrityReport(report, 'Archive does not match its manifest');
+      displayRejectedOperations(rejected);
+      logger.newline();
+      process.exitCode = EXIT_CODES.integrity;
+      return { manifest, signature, integrity: report, rejected };
+    }
+
+    logger.success(manifest.bundle ? 'Git bundle present' : `All ${report.checked} file(s) match the manifest`);
+    logger.newline();
+
+    return { manifest, signature, integrity: report, rejected };
+  } catch (error) {
+    failSpinner('Verification failed');
+    reportError(error);
+    process.exit(getExitCode(error));
+  } finally {
+    await archive?.close();
+  }
+}
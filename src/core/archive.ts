@@ -1,20 +1,52 @@
 import archiver from 'archiver';
-import AdmZip from 'adm-zip';
 import { createWriteStream } from 'node:fs';
-import { writeFile, stat } from 'node:fs/promises';
+import { open, stat, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import { Manifest, FileOperation } from '../types/index.js';
+import { Readable } from 'node:stream';
+import { ArchiveLimits, Manifest, FileOperation, FileEncoding, VolumeIndex } from '../types/index.js';
 import { serializeManifest, parseManifest, getManifestSummary } from './manifest.js';
-import { getArchiveFilePath } from '../utils/paths.js';
-import { ensureParentDir } from '../utils/fs.js';
+import {
+  getArchiveFilePath,
+  getArchiveBasePath,
+  getArchivePatchPath,
+  getArchiveCommitFilePath,
+  resolveSafePath,
+  resolveSafeLinkTarget,
+} from '../utils/paths.js';
+import {
+  createTempDir,
+  ensureParentDir,
+  fileExists,
+  readFileOrLink,
+  readStream,
+  removeTempDir,
+  saveStdin,
+  setFileMode,
+  writeFileWithMode,
+  writeStreamWithMode,
+} from '../utils/fs.js';
+import { openZip, ZipReader } from '../utils/zip.js';
+import { isArmored, dearmorFile } from './armor.js';
+import { isVolume, getVolumeIndex, joinVolumes } from './volumes.js';
+import { isEncrypted, decryptArchive, DecryptionKeys } from './encryption.js';
+import { checkArchiveLimits } from './validation.js';
+import { detectEncoding, encodeContent, createDecodeStream } from '../utils/encoding.js';
+import { SyncKitError } from '../utils/errors.js';
+
+/** Bytes read from the start of an archive to tell armored text from a zip */
+const ARMOR_DETECT_SIZE = 64 * 1024;
 
 /**
  * Create a zip archive with manifest and files
+ * Extra entries (base versions, patches, commit files) are added under their
+ * archive names and take precedence over working tree files
  */
 export async function createArchive(
   outputPath: string,
   manifest: Manifest,
   repoRoot: string,
+  compressionLevel: number,
+  extraEntries: Map<string, Buffer | string> = new Map(),
   onProgress?: (current: number, total: number) => void
 ): Promise<void> {
   await ensureParentDir(outputPath);
@@ -22,7 +54,7 @@ export async function createArchive(
   return new Promise((resolve, reject) => {
     const output = createWriteStream(outputPath);
     const archive = archiver('zip', {
-      zlib: { level: 9 }, // Maximum compression
+      zlib: { level: compressionLevel },
     });
 
     output.on('close', () => resolve());
@@ -36,64 +68,342 @@ export async function createArchive(
     // Add human-readable info
     archive.append(getManifestSummary(manifest), { name: 'meta/info.txt' });
 
-    // Add files
-    const filesToAdd = manifest.operations.filter((op) => op.type !== 'delete');
+    // Add files (patched files are carried by extra entries, bundles carry their own content)
+    const filesToAdd = manifest.bundle
+      ? []
+      : manifest.operations.filter((op) => op.type !== 'delete' && op.type !== 'chmod' && !op.delta);
     let processed = 0;
 
     for (const op of filesToAdd) {
       const sourcePath = join(repoRoot, op.path);
       const archivePath = getArchiveFilePath(op.path);
 
-      archive.file(sourcePath, { name: archivePath });
+      if (!extraEntries.has(archivePath)) {
+        archive.file(sourcePath, { name: archivePath });
+      }
 
       processed++;
       onProgress?.(processed, filesToAdd.length);
     }
 
+    // Add base versions, patches and other extra entries
+    for (const [name, content] of extraEntries) {
+      archive.append(content, { name });
+    }
+
     archive.finalize();
   });
 }
 
 /**
- * Extract archive and read manifest
+ * Detect the encoding of each file to archive and set `encoding` on its operation.
+ * Returns entries that cannot be streamed from the working tree as-is (base64
+ * binaries and symlink targets) by archive name, to be added as extra entries.
+ * Content is read from `contents` when present, else the working tree.
+ */
+export async function prepareFileEntries(
+  operations: FileOperation[],
+  repoRoot: string,
+  contents: Map<string, Buffer> = new Map()
+): Promise<Map<string, Buffer | string>> {
+  const entries = new Map<string, Buffer | string>();
+
+  for (const op of operations) {
+    // Patches are always text, mode changes carry no content
+    if (op.type === 'delete' || op.type === 'chmod' || op.delta) {
+      continue;
+    }
+
+    const content = contents.get(op.path) ?? (await readFileOrLink(join(repoRoot, op.path)));
+    op.encoding = detectEncoding(content);
+
+    if (op.encoding === 'base64' || op.mode === '120000') {
+      entries.set(getArchiveFilePath(op.path), encodeContent(content, op.encoding));
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Archive loaded from a file, stdin or the clipboard. Entries are read from
+ * disk as needed; call `close` once done with it.
+ */
+export interface LoadedArchive {
+  zip: ZipReader;
+  /** File path, or a label for stdin and clipboard sources */
+  path: string;
+  /** Zip size in bytes */
+  size: number;
+  /** Index of the split archive the zip was joined from */
+  volumes?: VolumeIndex;
+  /** Whether the archive was decrypted */
+  encrypted?: boolean;
+  /** Close the zip and remove temporary files */
+  close: () => Promise<void>;
+}
+
+/**
+ * Where to load an archive from and how to decrypt it
+ */
+export interface LoadArchiveOptions extends DecryptionKeys {
+  /** Read the armored archive from the clipboard instead of `source` */
+  clipboard?: boolean;
+  /** Limits every zip must stay within (default: the built-in limits) */
+  limits?: ArchiveLimits;
+}
+
+/**
+ * Load a zip or armored archive from a file, stdin (`-`) or the clipboard.
+ * Armored archives are verified by checksum before the zip is opened; a
+ * volume of a split archive is joined with its siblings, and an encrypted
+ * archive is decrypted last. Every step writes to a temporary file, so
+ * memory use does not grow with the archive size. Every zip opened on the
+ * way is checked against the archive limits before its entries are read.
+ */
+export async function loadArchive(
+  source: string | undefined,
+  options: LoadArchiveOptions = {}
+): Promise<LoadedArchive> {
+  if (!options.clipboard && source !== '-') {
+    if (!source) {
+      throw new SyncKitError('USAGE', 'Specify an archive path, - for stdin, or --clipboard');
+    }
+    if (!fileExists(source)) {
+      throw new SyncKitError('ARCHIVE_NOT_FOUND', `Archive not found: ${source}`);
+    }
+  }
+
+  const workDir = await createTempDir();
+  let zip: ZipReader | undefined;
+
+  try {
+    let path: string;
+    let file: string;
+    let volumes: VolumeIndex | undefined;
+
+    if (options.clipboard) {
+      path = '(clipboard)';
+      file = join(workDir, 'clipboard.txt');
+      await writeFile(file, await readClipboard());
+    } else if (source === '-') {
+      path = '(stdin)';
+      file = join(workDir, 'stdin');
+      await saveStdin(file);
+    } else {
+      path = file = source!;
+    }
+
+    if (isArmored(await readHead(file, ARMOR_DETECT_SIZE))) {
+      const dearmored = join(workDir, 'dearmored.zip');
+      await dearmorFile(file, dearmored);
+      file = dearmored;
+    }
+
+    zip = await openChecked(file, options.limits);
+
+    if (isVolume(zip)) {
+      if (path !== source) {
+        throw new SyncKitError('USAGE', 'Split archives must be read from files so the other volumes can be found');
+      }
+      volumes = await getVolumeIndex(zip);
+      file = join(workDir, 'joined.zip');
+      await joinVolumes(path, zip, file);
+      await zip.close();
+      zip = await openChecked(file, options.limits);
+    }
+
+    const size = (await stat(file)).size;
+    const encrypted = isEncrypted(zip);
+
+    if (encrypted) {
+      file = join(workDir, 'decrypted.zip');
+      await decryptArchive(zip, options, file);
+      await zip.close();
+      zip = await openChecked(file, options.limits);
+    }
+
+    const opened = zip;
+    const close = async (): Promise<void> => {
+      await opened.close();
+      await removeTempDir(workDir);
+    };
+
+    return { zip: opened, path, size, volumes, encrypted, close };
+  } catch (error) {
+    await zip?.close();
+    await removeTempDir(workDir);
+    throw error;
+  }
+}
+
+/**
+ * Read an armored archive from the clipboard
+ */
+async function readClipboard(): Promise<string> {
+  try {
+    const clipboardy = await import('clipboardy');
+    return await clipboardy.default.read();
+  } catch {
+    throw new SyncKitError('ARCHIVE_NOT_FOUND', 'Clipboard is not available');
+  }
+}
+
+/**
+ * Read the first bytes of a file
  */
-export function readArchive(archivePath: string): AdmZip {
-  return new AdmZip(archivePath);
+async function readHead(filePath: string, size: number): Promise<Buffer> {
+  const handle = await open(filePath, 'r');
+
+  try {
+    const head = Buffer.alloc(size);
+    const { bytesRead } = await handle.read(head, 0, size, 0);
+    return head.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Open a zip file, refusing archives over the limits
+ */
+async function openChecked(filePath: string, limits?: ArchiveLimits): Promise<ZipReader> {
+  const zip = await openZip(filePath);
+
+  try {
+    checkArchiveLimits(zip, limits);
+  } catch (error) {
+    await zip.close();
+    throw error;
+  }
+
+  return zip;
 }
 
 /**
  * Get manifest from archive
  */
-export function getManifestFromArchive(zip: AdmZip): Manifest {
+export async function getManifestFromArchive(zip: ZipReader): Promise<Manifest> {
   const manifestEntry = zip.getEntry('manifest.json');
 
   if (!manifestEntry) {
-    throw new Error('Archive does not contain manifest.json');
+    throw new SyncKitError('ARCHIVE_INVALID', 'Archive does not contain manifest.json');
   }
 
-  const manifestContent = zip.readAsText(manifestEntry);
+  const manifestContent = await zip.readText(manifestEntry);
   return parseManifest(manifestContent);
 }
 
 /**
- * Get file content from archive
+ * Stream an entry decoded from its stored encoding, or null when missing
  */
-export function getFileFromArchive(zip: AdmZip, filePath: string): Buffer | null {
-  const archivePath = getArchiveFilePath(filePath);
-  const entry = zip.getEntry(archivePath);
+export async function openEntryStream(
+  zip: ZipReader,
+  entryName: string,
+  encoding?: FileEncoding
+): Promise<Readable | null> {
+  const entry = zip.getEntry(entryName);
 
   if (!entry) {
     return null;
   }
 
-  return zip.readFile(entry);
+  const raw = await zip.openStream(entry);
+  const decoded = createDecodeStream(encoding);
+  raw.on('error', (error) => decoded.destroy(error));
+
+  return raw.pipe(decoded);
+}
+
+/**
+ * Get file content from archive, decoded from its stored encoding
+ */
+export async function getFileFromArchive(
+  zip: ZipReader,
+  filePath: string,
+  encoding?: FileEncoding
+): Promise<Buffer | null> {
+  const stream = await openEntryStream(zip, getArchiveFilePath(filePath), encoding);
+  return stream && readStream(stream);
+}
+
+/**
+ * Read up to `maxBytes` of a file from archive and count all of its lines,
+ * without keeping the rest in memory
+ */
+export async function getFileHeadFromArchive(
+  zip: ZipReader,
+  filePath: string,
+  maxBytes: number,
+  encoding?: FileEncoding
+): Promise<{ head: Buffer; lines: number } | null> {
+  const stream = await openEntryStream(zip, getArchiveFilePath(filePath), encoding);
+
+  if (!stream) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let lines = 1;
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    if (size < maxBytes) {
+      chunks.push(chunk.subarray(0, maxBytes - size));
+      size += Math.min(chunk.length, maxBytes - size);
+    }
+    for (let i = chunk.indexOf(10); i !== -1; i = chunk.indexOf(10, i + 1)) {
+      lines++;
+    }
+  }
+
+  return { head: Buffer.concat(chunks), lines };
+}
+
+/**
+ * Get base version of a file from archive
+ */
+export async function getBaseFromArchive(zip: ZipReader, filePath: string): Promise<Buffer | null> {
+  const entry = zip.getEntry(getArchiveBasePath(filePath));
+
+  if (!entry) {
+    return null;
+  }
+
+  return zip.read(entry);
+}
+
+/**
+ * Get patch of a file from archive
+ */
+export async function getPatchFromArchive(zip: ZipReader, filePath: string): Promise<string | null> {
+  const entry = zip.getEntry(getArchivePatchPath(filePath));
+
+  if (!entry) {
+    return null;
+  }
+
+  return zip.readText(entry);
+}
+
+/**
+ * Get file content as of a packed commit from archive, decoded from its stored encoding
+ */
+export async function getCommitFileFromArchive(
+  zip: ZipReader,
+  commit: string,
+  filePath: string,
+  encoding?: FileEncoding
+): Promise<Buffer | null> {
+  const stream = await openEntryStream(zip, getArchiveCommitFilePath(commit, filePath), encoding);
+  return stream && readStream(stream);
 }
 
 /**
  * Extract all files from archive to target directory
  */
 export async function extractArchive(
-  zip: AdmZip,
+  zip: ZipReader,
   manifest: Manifest,
   targetDir: string,
   onProgress?: (current: number, total: number, operation: FileOperation) => void
@@ -102,19 +412,33 @@ export async function extractArchive(
   let processed = 0;
 
   for (const op of operations) {
-    const targetPath = join(targetDir, op.path);
+    const targetPath = resolveSafePath(targetDir, op.path);
 
     if (op.type === 'delete') {
       // Delete operations are handled separately
       continue;
     }
 
-    // Get file content from archive
-    const content = getFileFromArchive(zip, op.path);
+    if (op.type === 'chmod') {
+      if (op.mode && fileExists(targetPath)) {
+        await setFileMode(targetPath, op.mode);
+      }
+    } else if (op.mode === '120000') {
+      const content = await getFileFromArchive(zip, op.path, op.encoding);
+
+      if (content) {
+        resolveSafeLinkTarget(targetDir, op.path, content.toString('utf-8'));
+        await ensureParentDir(targetPath);
+        await writeFileWithMode(targetPath, content, op.mode);
+      }
+    } else {
+      // Stream file content from archive
+      const stream = await openEntryStream(zip, getArchiveFilePath(op.path), op.encoding);
 
-    if (content) {
-      await ensureParentDir(targetPath);
-      await writeFile(targetPath, content, { mode: 0o644 });
+      if (stream) {
+        await ensureParentDir(targetPath);
+        await writeStreamWithMode(targetPath, stream, op.mode);
+      }
     }
 
     processed++;
@@ -125,8 +449,8 @@ export async function extractArchive(
 /**
  * List all entries in archive
  */
-export function listArchiveEntries(zip: AdmZip): string[] {
-  return zip.getEntries().map((entry) => entry.entryName);
+export function listArchiveEntries(zip: ZipReader): string[] {
+  return zip.getEntries().map((entry) => entry.name);
 }
 
 /**
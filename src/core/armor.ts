@@ -0,0 +1,162 @@
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { open } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import { hashBuffer } from '../utils/fs.js';
+import { encodeContent } from '../utils/encoding.js';
+import { SyncKitError } from '../utils/errors.js';
+
+const ARMOR_BEGIN = '-----BEGIN SYNC-KIT ARCHIVE-----';
+const ARMOR_END = '-----END SYNC-KIT ARCHIVE-----';
+const ARMOR_VERSION = '1';
+const CHECKSUM_PREFIX = 'Checksum: ';
+
+/** Decoded bytes collected before each write */
+const WRITE_BATCH_SIZE = 1024 * 1024;
+
+/**
+ * Wrap a zip archive into a self-contained text blob:
+ * header, line-wrapped base64 body, checksum and footer
+ */
+export function armorArchive(content: Buffer, name: string): string {
+  return [
+    ARMOR_BEGIN,
+    `Version: ${ARMOR_VERSION}`,
+    `Name: ${name}`,
+    `Size: ${content.length}`,
+    '',
+    (encodeContent(content, 'base64') as string).trimEnd(),
+    `${CHECKSUM_PREFIX}${hashBuffer(content)}`,
+    ARMOR_END,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Check if content is an armored archive rather than a zip file
+ */
+export function isArmored(content: Buffer): boolean {
+  return content.subarray(0, 2).toString('latin1') !== 'PK' && content.includes(ARMOR_BEGIN);
+}
+
+/**
+ * Decode an armored archive file into `outputPath` line by line, verifying
+ * its size and checksum. Text around the BEGIN/END lines (e.g. chat
+ * messages) is ignored. Returns the original archive file name.
+ */
+export async function dearmorFile(inputPath: string, outputPath: string): Promise<string> {
+  const lines = createInterface({ input: createReadStream(inputPath), crlfDelay: Infinity });
+  const output = await open(outputPath, 'w');
+  const hash = createHash('sha256');
+  const headers = new Map<string, string>();
+  let section: 'before' | 'headers' | 'body' | 'after' = 'before';
+  let ended = false;
+  let checksum: string | undefined;
+  let size = 0;
+  let pending = '';
+  let padded = false;
+  let batch: Buffer[] = [];
+  let batchSize = 0;
+
+  const write = async (chunk: Buffer, flush = false): Promise<void> => {
+    hash.update(chunk);
+    size += chunk.length;
+    batch.push(chunk);
+    batchSize += chunk.length;
+    if (flush || batchSize >= WRITE_BATCH_SIZE) {
+      await output.write(Buffer.concat(batch));
+      batch = [];
+      batchSize = 0;
+    }
+  };
+
+  try {
+    for await (const rawLine of lines) {
+      const line = rawLine.trim();
+
+      if (section === 'before') {
+        if (line === ARMOR_BEGIN) {
+          section = 'headers';
+        }
+        continue;
+      }
+
+      if (line === ARMOR_END) {
+        ended = true;
+        break;
+      }
+
+      if (section === 'headers') {
+        // Headers run up to the first blank line
+        if (line === '') {
+          checkVersion(headers);
+          section = 'body';
+          continue;
+        }
+
+        const separator = line.indexOf(':');
+        if (separator === -1) {
+          throw new SyncKitError('ARCHIVE_INVALID', `Armored archive has an invalid header line: ${line}`);
+        }
+        headers.set(line.slice(0, separator), line.slice(separator + 1).trim());
+      } else if (section === 'body') {
+        if (line.startsWith(CHECKSUM_PREFIX)) {
+          checksum = line.slice(CHECKSUM_PREFIX.length);
+          await write(Buffer.from(pending, 'base64'), true);
+          section = 'after';
+          continue;
+        }
+
+        // Padding may only end the body
+        if (!/^[A-Za-z0-9+/]*={0,2}$/.test(line) || (padded && line !== '')) {
+          throw new SyncKitError('ARCHIVE_CORRUPTED', 'Armored archive is corrupted: body contains invalid characters');
+        }
+        padded = line.includes('=');
+
+        pending += line;
+        const usable = pending.length - (pending.length % 4);
+        await write(Buffer.from(pending.slice(0, usable), 'base64'));
+        pending = pending.slice(usable);
+      }
+    }
+  } finally {
+    lines.close();
+    await output.close();
+  }
+
+  if (!ended) {
+    throw new SyncKitError('ARCHIVE_INCOMPLETE', 'Armored archive is incomplete: BEGIN or END line not found');
+  }
+  if (section === 'headers') {
+    checkVersion(headers);
+  }
+  if (checksum === undefined) {
+    throw new SyncKitError('ARCHIVE_INCOMPLETE', 'Armored archive is incomplete: checksum line not found');
+  }
+
+  const expectedSize = Number(headers.get('Size'));
+  if (size !== expectedSize) {
+    throw new SyncKitError(
+      'ARCHIVE_CORRUPTED',
+      `Armored archive is corrupted: expected ${expectedSize} bytes, got ${size}`
+    );
+  }
+
+  if (`sha256:${hash.digest('hex')}` !== checksum) {
+    throw new SyncKitError('ARCHIVE_CORRUPTED', 'Armored archive is corrupted: checksum mismatch');
+  }
+
+  return headers.get('Name') || 'archive.zip';
+}
+
+/**
+ * Refuse armor versions other than the supported one
+ */
+function checkVersion(headers: Map<string, string>): void {
+  if (headers.get('Version') !== ARMOR_VERSION) {
+    throw new SyncKitError(
+      'ARCHIVE_INVALID',
+      `Unsupported armored archive version: ${headers.get('Version') ?? 'none'}`
+    );
+  }
+}
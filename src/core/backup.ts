@@ -1,65 +1,183 @@
-import { join } from 'node:path';
-import { readdir } from 'node:fs/promises';
-import { FileOperation } from '../types/index.js';
+import { basename, join } from 'node:path';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { Config, FileOperation, BackupManifest, BackupInfo } from '../types/index.js';
 import { ensureDir, copy, fileExists, remove, listFilesRecursive } from '../utils/fs.js';
 import { generateTimestamp, resolveSafePath } from '../utils/paths.js';
+import { SyncKitError } from '../utils/errors.js';
 
-const BACKUP_DIR = '.sync-backup';
+const BACKUP_PREFIX = 'backup_';
+const BACKUP_MANIFEST_FILE = 'backup.json';
+const BACKUP_FILES_DIR = 'files';
+const BACKUP_MANIFEST_VERSION = '1.0';
 
 /**
  * Create a backup of files that will be modified
  */
 export async function createBackup(
   operations: FileOperation[],
-  targetDir: string
+  targetDir: string,
+  config: Config,
+  archivePath?: string
 ): Promise<string> {
   const timestamp = generateTimestamp();
-  const backupPath = join(targetDir, BACKUP_DIR, `backup_${timestamp}`);
-
-  await ensureDir(backupPath);
-
-  // Backup files that will be modified or deleted
-  const filesToBackup = operations.filter(
-    (op) => op.type === 'modify' || op.type === 'delete' || op.type === 'rename'
-  );
-
-  for (const op of filesToBackup) {
+  const backupPath = join(getBackupDir(targetDir, config), `${BACKUP_PREFIX}${timestamp}`);
+  const filesPath = join(backupPath, BACKUP_FILES_DIR);
+
+  await ensureDir(filesPath);
+
+  const manifest: BackupManifest = {
+    version: BACKUP_MANIFEST_VERSION,
+    created: new Date().toISOString(),
+    archive: archivePath,
+    added: [],
+    modified: [],
+    deleted: [],
+    renamed: [],
+  };
+
+  for (const op of operations) {
     // Validate path is safe (prevents path traversal attacks)
     const sourcePath = resolveSafePath(targetDir, op.path);
+    const existed = fileExists(sourcePath);
 
     // For renames, backup the source file
     if (op.type === 'rename' && op.from) {
       const fromPath = resolveSafePath(targetDir, op.from);
       if (fileExists(fromPath)) {
-        const backupFilePath = resolveSafePath(backupPath, op.from);
+        const backupFilePath = resolveSafePath(filesPath, op.from);
         await copy(fromPath, backupFilePath);
       }
-    } else if (fileExists(sourcePath)) {
-      const backupFilePath = resolveSafePath(backupPath, op.path);
+      manifest.renamed.push({ from: op.from, to: op.path });
+    }
+
+    // Backup any file that will be overwritten or deleted, including
+    // existing files at the target of adds and renames
+    if (existed) {
+      const backupFilePath = resolveSafePath(filesPath, op.path);
       await copy(sourcePath, backupFilePath);
     }
+
+    if (op.type === 'delete') {
+      if (existed) {
+        manifest.deleted.push(op.path);
+      }
+    } else if (existed) {
+      manifest.modified.push(op.path);
+    } else {
+      manifest.added.push(op.path);
+    }
   }
 
+  await writeFile(
+    join(backupPath, BACKUP_MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2)
+  );
+
   return backupPath;
 }
 
 /**
- * Restore files from a backup
+ * Restore files from a backup, removing files the import created
  */
 export async function restoreBackup(
   backupPath: string,
   targetDir: string
 ): Promise<void> {
-  const files = await listFilesRecursive(backupPath);
+  const manifest = await readBackupManifest(backupPath);
+
+  // Backups made before manifests existed store files at the root
+  if (!manifest) {
+    const files = await listFilesRecursive(backupPath);
+    for (const file of files) {
+      // Validate paths are safe
+      const sourcePath = resolveSafePath(backupPath, file);
+      const targetPath = resolveSafePath(targetDir, file);
+      await copy(sourcePath, targetPath);
+    }
+    return;
+  }
+
+  // Remove files that did not exist before the import
+  for (const path of manifest.added) {
+    await remove(resolveSafePath(targetDir, path));
+  }
 
+  const filesPath = join(backupPath, BACKUP_FILES_DIR);
+  if (!fileExists(filesPath)) {
+    return;
+  }
+
+  const files = await listFilesRecursive(filesPath);
   for (const file of files) {
     // Validate paths are safe
-    const sourcePath = resolveSafePath(backupPath, file);
+    const sourcePath = resolveSafePath(filesPath, file);
     const targetPath = resolveSafePath(targetDir, file);
     await copy(sourcePath, targetPath);
   }
 }
 
+/**
+ * Read the manifest of a backup, if it has one
+ */
+export async function readBackupManifest(backupPath: string): Promise<BackupManifest | null> {
+  const manifestPath = join(backupPath, BACKUP_MANIFEST_FILE);
+
+  if (!fileExists(manifestPath)) {
+    return null;
+  }
+
+  const content = await readFile(manifestPath, 'utf-8');
+  return JSON.parse(content) as BackupManifest;
+}
+
+/**
+ * Get backup details from its directory
+ */
+export async function getBackupInfo(backupPath: string): Promise<BackupInfo> {
+  const manifest = await readBackupManifest(backupPath);
+
+  return {
+    path: backupPath,
+    timestamp: basename(backupPath).slice(BACKUP_PREFIX.length),
+    manifest: manifest || undefined,
+  };
+}
+
+/**
+ * Find a backup by timestamp (exact or unique prefix)
+ */
+export async function findBackup(targetDir: string, config: Config, timestamp: string): Promise<string> {
+  const backups = await listBackups(targetDir, config);
+  const wanted = timestamp.startsWith(BACKUP_PREFIX) ? timestamp : `${BACKUP_PREFIX}${timestamp}`;
+
+  const exact = backups.find((backup) => basename(backup) === wanted);
+  if (exact) {
+    return exact;
+  }
+
+  const matches = backups.filter((backup) => basename(backup).startsWith(wanted));
+  if (matches.length === 0) {
+    throw new SyncKitError('BACKUP_NOT_FOUND', `Backup not found: ${timestamp}`);
+  }
+  if (matches.length > 1) {
+    throw new SyncKitError(
+      'BACKUP_NOT_FOUND',
+      `Ambiguous backup timestamp "${timestamp}" matches ${matches.length} backups`
+    );
+  }
+
+  return matches[0];
+}
+
+/**
+ * Remove backups beyond the configured retention, most recent first. Only
+ * called for backups that are kept, so a rollback snapshot taken without
+ * a backup never removes older ones.
+ */
+export async function pruneBackups(targetDir: string, config: Config): Promise<number> {
+  return config.backupRetention > 0 ? cleanOldBackups(targetDir, config, config.backupRetention) : 0;
+}
+
 /**
  * Remove a backup
  */
@@ -70,8 +188,8 @@ export async function removeBackup(backupPath: string): Promise<void> {
 /**
  * List all backups in a directory
  */
-export async function listBackups(targetDir: string): Promise<string[]> {
-  const backupDir = join(targetDir, BACKUP_DIR);
+export async function listBackups(targetDir: string, config: Config): Promise<string[]> {
+  const backupDir = getBackupDir(targetDir, config);
 
   if (!fileExists(backupDir)) {
     return [];
@@ -80,7 +198,7 @@ export async function listBackups(targetDir: string): Promise<string[]> {
   const entries = await readdir(backupDir, { withFileTypes: true });
 
   return entries
-    .filter((entry) => entry.isDirectory() && entry.name.startsWith('backup_'))
+    .filter((entry) => entry.isDirectory() && entry.name.startsWith(BACKUP_PREFIX))
     .map((entry) => join(backupDir, entry.name))
     .sort()
     .reverse(); // Most recent first
@@ -89,8 +207,8 @@ export async function listBackups(targetDir: string): Promise<string[]> {
 /**
  * Get backup directory path
  */
-export function getBackupDir(targetDir: string): string {
-  return join(targetDir, BACKUP_DIR);
+export function getBackupDir(targetDir: string, config: Config): string {
+  return join(targetDir, config.backupDir);
 }
 
 /**
@@ -98,9 +216,10 @@ export function getBackupDir(targetDir: string): string {
  */
 export async function cleanOldBackups(
   targetDir: string,
+  config: Config,
   keepCount: number = 5
 ): Promise<number> {
-  const backups = await listBackups(targetDir);
+  const backups = await listBackups(targetDir, config);
 
   if (backups.length <= keepCount) {
     return 0;
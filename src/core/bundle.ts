@@ -0,0 +1,175 @@
+import { createWriteStream } from 'node:fs';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { BundleInfo, DetectedChange, FetchedRef } from '../types/index.js';
+import {
+  resolveCommitRange,
+  resolveRevision,
+  getRangeChanges,
+  getEmptyTree,
+  createBundle,
+  fetchFromBundle,
+  hasCommit,
+  GitRepo,
+} from './git.js';
+import { ZipReader } from '../utils/zip.js';
+import { SyncKitError } from '../utils/errors.js';
+
+/**
+ * Archive entry holding the git bundle
+ */
+export const BUNDLE_ENTRY = 'bundle/repo.bundle';
+
+/**
+ * Namespace of local refs bundles are fetched into
+ */
+export const BUNDLE_REF_PREFIX = 'refs/sync-kit/';
+
+/**
+ * Git bundle packed for export
+ */
+export interface PackedBundle {
+  /** Raw bundle file content */
+  content: Buffer;
+  /** Bundle description for the manifest */
+  info: BundleInfo;
+  /** Full hash of the range base, null for a full history */
+  base: string | null;
+  /** Full hash of the range tip */
+  tip: string;
+  /** Squashed changes between base (or the empty tree) and tip */
+  changes: DetectedChange[];
+}
+
+/**
+ * Create a git bundle of a revision range.
+ * `base..tip` bundles only the commits of the range, a single revision its full history.
+ * A HEAD tip is bundled under the current branch name.
+ */
+export async function packBundle(repo: GitRepo, range: string, branch: string): Promise<PackedBundle> {
+  const asRef = (ref: string): string => {
+    const name = ref || 'HEAD';
+    return name === 'HEAD' && branch !== 'HEAD' ? branch : name;
+  };
+
+  let base: string | null = null;
+  let tip: string;
+  let rev: string;
+
+  if (range.includes('..')) {
+    const [baseRef, tipRef] = range.split('..');
+    ({ base, tip } = await resolveCommitRange(repo, range));
+    rev = `${baseRef || 'HEAD'}..${asRef(tipRef)}`;
+
+    if (base === tip) {
+      throw new SyncKitError('USAGE', `No commits in range ${range}`);
+    }
+  } else {
+    tip = await resolveRevision(repo, range);
+    rev = asRef(range);
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), 'sync-kit-'));
+  let content: Buffer;
+
+  try {
+    const file = join(dir, 'repo.bundle');
+    await createBundle(repo, file, [rev]);
+    content = await readFile(file);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+
+  const changes = (await getRangeChanges(repo, base ?? (await getEmptyTree(repo)), tip)).map(
+    ({ content: _content, ...change }) => change
+  );
+
+  return {
+    content,
+    info: { file: BUNDLE_ENTRY, range, ...parseBundleHeader(content) },
+    base,
+    tip,
+    changes,
+  };
+}
+
+/**
+ * Parse refs and prerequisite commits from a bundle header
+ */
+export function parseBundleHeader(content: Buffer): Pick<BundleInfo, 'refs' | 'prerequisites'> {
+  const end = content.indexOf('\n\n');
+  const lines = content.subarray(0, end === -1 ? content.length : end).toString('utf-8').split('\n');
+
+  if (!/^# v\d git bundle$/.test(lines[0] ?? '')) {
+    throw new SyncKitError('ARCHIVE_INVALID', 'Invalid git bundle');
+  }
+
+  const refs: BundleInfo['refs'] = [];
+  const prerequisites: string[] = [];
+
+  for (const line of lines.slice(1)) {
+    // v3 capabilities
+    if (line.startsWith('@')) continue;
+
+    if (line.startsWith('-')) {
+      prerequisites.push(line.slice(1).split(' ')[0]);
+    } else if (line) {
+      const [hash, name] = line.split(' ');
+      refs.push({ name, hash });
+    }
+  }
+
+  return { refs, prerequisites };
+}
+
+/**
+ * Get prerequisite commits missing from a repository
+ */
+export async function getMissingPrerequisites(repo: GitRepo, info: BundleInfo): Promise<string[]> {
+  const missing: string[] = [];
+
+  for (const commit of info.prerequisites) {
+    if (!(await hasCommit(repo, commit))) {
+      missing.push(commit);
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Map bundle refs to local refs under refs/sync-kit/
+ */
+export function getFetchedRefs(info: BundleInfo, sourceBranch: string): FetchedRef[] {
+  return info.refs.map(({ name, hash }) => {
+    const short = name === 'HEAD' ? sourceBranch : name.replace(/^refs\/(heads|tags)\//, '');
+    return { name, hash, local: `${BUNDLE_REF_PREFIX}${short}` };
+  });
+}
+
+/**
+ * Fetch the bundle embedded in an archive into local refs of a repository
+ */
+export async function fetchBundle(
+  repo: GitRepo,
+  zip: ZipReader,
+  info: BundleInfo,
+  refs: FetchedRef[]
+): Promise<void> {
+  const entry = zip.getEntry(info.file);
+  if (!entry) {
+    throw new SyncKitError('ARCHIVE_CORRUPTED', `Bundle not found in archive: ${info.file}`);
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), 'sync-kit-'));
+
+  try {
+    const file = join(dir, 'repo.bundle');
+    await pipeline(await zip.openStream(entry), createWriteStream(file));
+    await fetchFromBundle(repo, file, refs.map(({ name, local }) => ({ src: name, dst: local })));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,205 @@
+import { CommitEntry, DetectedChange, FileOperation } from '../types/index.js';
+import { getCommitFileFromArchive, openEntryStream } from './archive.js';
+import { sortOperationsForApply } from './diff.js';
+import { toFileOperation } from './manifest.js';
+import {
+  getHeadCommit,
+  createCommit,
+  resetToCommit,
+  resolveCommitRange,
+  getCommitsInRange,
+  getCommitChanges,
+  getMergeCommits,
+  getRangeChanges,
+  GitRepo,
+} from './git.js';
+import {
+  ensureParentDir,
+  fileExists,
+  remove,
+  setFileMode,
+  writeFileWithMode,
+  writeStreamWithMode,
+} from '../utils/fs.js';
+import { getArchiveCommitFilePath, resolveSafePath, resolveSafeLinkTarget } from '../utils/paths.js';
+import { detectEncoding, encodeContent } from '../utils/encoding.js';
+import { ZipReader } from '../utils/zip.js';
+import { SyncKitError } from '../utils/errors.js';
+
+/**
+ * Commits of a range packed for export
+ */
+export interface PackedCommits {
+  /** Full hash of the range base (excluded from the range) */
+  base: string;
+  /** Full hash of the range tip */
+  tip: string;
+  /** Commits with their operations, oldest first */
+  commits: CommitEntry[];
+  /** Squashed changes between base and tip */
+  changes: DetectedChange[];
+  /** Squashed file contents as of tip, by path */
+  contents: Map<string, Buffer>;
+  /** Per-commit file contents, by archive entry name (already encoded) */
+  entries: Map<string, Buffer | string>;
+}
+
+/**
+ * Pack the commits of a range with their per-commit file operations
+ */
+export async function packCommits(
+  repo: GitRepo,
+  range: string,
+  filter: (path: string) => boolean
+): Promise<PackedCommits> {
+  const { base, tip } = await resolveCommitRange(repo, range);
+  const commits = await getCommitsInRange(repo, base, tip);
+
+  if (commits.length === 0) {
+    throw new SyncKitError('USAGE', `No commits in range ${range}`);
+  }
+
+  // A merge has no single diff to replay; its changes would be lost
+  const merges = await getMergeCommits(repo, base, tip);
+  if (merges.length > 0) {
+    const hashes = merges.map((hash) => hash.slice(0, 7)).join(', ');
+    throw new SyncKitError(
+      'USAGE',
+      `Range ${range} contains merge commit(s) ${hashes}; export it with --bundle or as squashed changes`
+    );
+  }
+
+  const entries = new Map<string, Buffer | string>();
+
+  for (const commit of commits) {
+    const commitChanges = (await getCommitChanges(repo, commit.hash)).filter((c) => filter(c.path));
+    commit.operations = commitChanges.map(toFileOperation);
+
+    for (const [i, change] of commitChanges.entries()) {
+      if (change.content) {
+        const op = commit.operations[i];
+        op.encoding = detectEncoding(change.content);
+        entries.set(
+          getArchiveCommitFilePath(commit.hash, change.path),
+          encodeContent(change.content, op.encoding)
+        );
+      }
+    }
+  }
+
+  const contents = new Map<string, Buffer>();
+  const changes: DetectedChange[] = [];
+
+  for (const { content, ...change } of await getRangeChanges(repo, base, tip)) {
+    if (!filter(change.path)) continue;
+
+    changes.push(change);
+    if (content) {
+      contents.set(change.path, content);
+    }
+  }
+
+  return { base, tip, commits, changes, contents, entries };
+}
+
+/**
+ * Recreate packed commits on the current branch of a repository, oldest first.
+ * If any commit fails, HEAD and the working tree are reset to where they were.
+ * Returns the hashes of the new commits.
+ */
+export async function replayCommits(
+  repo: GitRepo,
+  zip: ZipReader,
+  commits: CommitEntry[],
+  onProgress?: (current: number, total: number, commit: CommitEntry) => void
+): Promise<string[]> {
+  const targetDir = repo.root;
+  const originalHead = await getHeadCommit(repo);
+  const created: string[] = [];
+  let pendingAdds: string[] = [];
+
+  try {
+    for (const commit of commits) {
+      const operations = sortOperationsForApply(commit.operations);
+      const paths = new Set<string>();
+
+      // Files written by this commit are untracked until it is created
+      pendingAdds = operations
+        .filter((op) => op.type !== 'delete' && !fileExists(resolveSafePath(targetDir, op.path)))
+        .map((op) => op.path);
+
+      for (const op of operations) {
+        await applyCommitOperation(zip, commit, op, targetDir);
+        paths.add(op.path);
+        if (op.from) {
+          paths.add(op.from);
+        }
+      }
+
+      created.push(await createCommit(repo, commit, [...paths]));
+      pendingAdds = [];
+      onProgress?.(created.length, commits.length, commit);
+    }
+  } catch (error) {
+    await resetToCommit(repo, originalHead, pendingAdds);
+    const message = error instanceof Error ? error.message : String(error);
+    throw new SyncKitError(
+      'IMPORT_ROLLED_BACK',
+      `Import rolled back: ${message} - branch reset to ${originalHead.slice(0, 7)}`,
+      { cause: error }
+    );
+  }
+
+  return created;
+}
+
+/**
+ * Apply a single operation of a packed commit to the working tree
+ */
+async function applyCommitOperation(
+  zip: ZipReader,
+  commit: CommitEntry,
+  op: FileOperation,
+  targetDir: string
+): Promise<void> {
+  const targetPath = resolveSafePath(targetDir, op.path);
+
+  if (op.type === 'delete') {
+    await remove(targetPath);
+    return;
+  }
+
+  if (op.type === 'chmod') {
+    if (!fileExists(targetPath)) {
+      throw new SyncKitError('TARGET_MISMATCH', `Cannot change mode of ${op.path}: file does not exist`);
+    }
+    await setFileMode(targetPath, op.mode ?? '100644');
+    return;
+  }
+
+  // Symlink targets are checked before anything is written
+  const content = op.mode === '120000'
+    ? await getCommitFileFromArchive(zip, commit.hash, op.path, op.encoding)
+    : await openEntryStream(zip, getArchiveCommitFilePath(commit.hash, op.path), op.encoding);
+  if (!content) {
+    throw new SyncKitError(
+      'ARCHIVE_CORRUPTED',
+      `File not found in archive: ${op.path} (commit ${commit.hash.slice(0, 7)})`
+    );
+  }
+
+  if (Buffer.isBuffer(content)) {
+    resolveSafeLinkTarget(targetDir, op.path, content.toString('utf-8'));
+  }
+
+  if (op.type === 'rename' && op.from) {
+    await remove(resolveSafePath(targetDir, op.from));
+  }
+
+  await ensureParentDir(targetPath);
+  if (Buffer.isBuffer(content)) {
+    await writeFileWithMode(targetPath, content, op.mode);
+  } else {
+    await writeStreamWithMode(targetPath, content, op.mode);
+  }
+}
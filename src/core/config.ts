@@ -0,0 +1,316 @@
+import { dirname, isAbsolute, join } from 'node:path';
+import { Config, ConfigSource, ExportProfile, LoadedConfig } from '../types/index.js';
+import { parseSize } from './volumes.js';
+import { fileExists, readFileContent } from '../utils/fs.js';
+import { DEFAULT_EXCLUDES } from '../utils/filters.js';
+import { getUserConfigDir } from '../utils/paths.js';
+import { SyncKitError } from '../utils/errors.js';
+
+/** Repository config file */
+export const CONFIG_FILE = '.sync-kit.json';
+
+/** User-level config file */
+export const USER_CONFIG_PATH = join(getUserConfigDir(), 'config.json');
+
+/**
+ * Built-in defaults
+ */
+export const DEFAULT_CONFIG: Config = {
+  defaultExcludes: DEFAULT_EXCLUDES,
+  historyFile: '.sync-history/history.json',
+  backupDir: '.sync-backup',
+  backupRetention: 0,
+  outputDir: undefined,
+  compressionLevel: 9,
+  defaultMode: 'changes',
+  secrets: {},
+  profiles: {},
+  archiveLimits: {},
+};
+
+/**
+ * Validators of export profile fields
+ */
+const PROFILE_SCHEMA: Record<keyof ExportProfile, (value: unknown) => boolean> = {
+  description: (value) => typeof value === 'string',
+  mode: (value) => value === 'changes' || value === 'full',
+  include: (value) => isStringArray(value),
+  exclude: (value) => isStringArray(value),
+  message: (value) => typeof value === 'string',
+  outputDir: (value) => typeof value === 'string' && !!value,
+  delta: (value) => typeof value === 'boolean',
+  armor: (value) => typeof value === 'boolean',
+  split: (value) => typeof value === 'string',
+  encrypt: (value) => typeof value === 'boolean',
+  recipients: (value) => isStringArray(value),
+  sign: (value) => typeof value === 'boolean' || typeof value === 'string',
+};
+
+/**
+ * Validators by key; each returns an error message for an invalid value
+ */
+const SCHEMA: Record<keyof Config, (value: unknown) => string | undefined> = {
+  defaultExcludes: (value) => (isStringArray(value) ? undefined : 'must be an array of glob patterns'),
+  historyFile: (value) => checkRelativePath(value),
+  backupDir: (value) => checkRelativePath(value),
+  backupRetention: (value) =>
+    Number.isInteger(value) && (value as number) >= 0 ? undefined : 'must be a non-negative integer',
+  outputDir: (value) => (typeof value === 'string' && value ? undefined : 'must be a directory path'),
+  compressionLevel: (value) =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 9
+      ? undefined
+      : 'must be an integer from 0 to 9',
+  defaultMode: (value) => (value === 'changes' || value === 'full' ? undefined : 'must be "changes" or "full"'),
+  secrets: (value) => checkSecrets(value),
+  profiles: (value) => checkProfiles(value),
+  archiveLimits: (value) => checkArchiveLimits(value),
+};
+
+/**
+ * Load the effective config for a directory: built-in defaults, then the
+ * user config, then the nearest .sync-kit.json up to the repository root,
+ * then values given by command-line flags. Each layer replaces whole values.
+ */
+export async function loadConfig(dir: string, flags: Partial<Config> = {}): Promise<LoadedConfig> {
+  const values: Config = { ...DEFAULT_CONFIG };
+  const sources = getSources('default');
+  const files: LoadedConfig['files'] = {};
+
+  const apply = (layer: Partial<Config>, source: ConfigSource): void => {
+    for (const [key, value] of Object.entries(layer) as Array<[keyof Config, unknown]>) {
+      if (value !== undefined) {
+        (values as unknown as Record<string, unknown>)[key] = value;
+        sources[key] = source;
+      }
+    }
+  };
+
+  const userConfig = process.env.SYNC_KIT_CONFIG || USER_CONFIG_PATH;
+  if (fileExists(userConfig)) {
+    apply(await readConfigFile(userConfig), 'user');
+    files.user = userConfig;
+  }
+
+  const repoConfig = findRepoConfig(dir);
+  if (repoConfig) {
+    apply(await readConfigFile(repoConfig), 'repo');
+    files.repo = repoConfig;
+  }
+
+  apply(validateConfig(flags, 'command-line flags'), 'flag');
+
+  return { values, sources, files };
+}
+
+/**
+ * Get a named export profile
+ */
+export function getProfile(config: Config, name: string): ExportProfile {
+  const profile = Object.hasOwn(config.profiles, name) ? config.profiles[name] : undefined;
+
+  if (!profile) {
+    const available = Object.keys(config.profiles);
+    throw new SyncKitError(
+      'PROFILE_NOT_FOUND',
+      available.length > 0
+        ? `Unknown profile ${name} (available: ${available.join(', ')})`
+        : `Unknown profile ${name}: no profiles are configured`
+    );
+  }
+
+  return profile;
+}
+
+/**
+ * Read and validate a config file
+ */
+async function readConfigFile(path: string): Promise<Partial<Config>> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFileContent(path));
+  } catch {
+    throw new SyncKitError('CONFIG_INVALID', `Invalid config ${path}: not valid JSON`);
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new SyncKitError('CONFIG_INVALID', `Invalid config ${path}: expected an object`);
+  }
+
+  return validateConfig(data as Record<string, unknown>, `config ${path}`);
+}
+
+/**
+ * Validate config values against the schema, listing every problem
+ */
+function validateConfig(data: Record<string, unknown>, label: string): Partial<Config> {
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (!(key in SCHEMA)) {
+      problems.push(`unknown key "${key}"`);
+      continue;
+    }
+
+    const problem = SCHEMA[key as keyof Config](value);
+    if (problem) {
+      problems.push(`"${key}" ${problem}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new SyncKitError('CONFIG_INVALID', `Invalid ${label}:\n    ${problems.join('\n    ')}`);
+  }
+
+  return data as Partial<Config>;
+}
+
+/**
+ * Find .sync-kit.json in a directory or its parents, stopping at the repository root
+ */
+function findRepoConfig(dir: string): string | undefined {
+  let current = dir;
+
+  for (;;) {
+    const path = join(current, CONFIG_FILE);
+    if (fileExists(path)) {
+      return path;
+    }
+
+    const parent = dirname(current);
+    if (fileExists(join(current, '.git')) || parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Get a source map with every key set to one layer
+ */
+function getSources(source: ConfigSource): Record<keyof Config, ConfigSource> {
+  return Object.fromEntries(Object.keys(SCHEMA).map((key) => [key, source])) as Record<keyof Config, ConfigSource>;
+}
+
+/**
+ * Check that a value is an array of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Check that a value is a size such as 512MB
+ */
+function isSize(value: string): boolean {
+  try {
+    parseSize(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a path that must stay inside the repository
+ */
+function checkRelativePath(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value) {
+    return 'must be a path';
+  }
+  if (isAbsolute(value) || value.split(/[\\/]/).includes('..')) {
+    return 'must be a path inside the repository';
+  }
+  return undefined;
+}
+
+/**
+ * Check the secrets section: custom patterns must be valid regexes
+ */
+function checkSecrets(value: unknown): string | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'must be an object';
+  }
+
+  const { patterns, allow, ...rest } = value as Record<string, unknown>;
+
+  const unknown = Object.keys(rest)[0];
+  if (unknown) {
+    return `has unknown key "${unknown}"`;
+  }
+  if (allow !== undefined && !isStringArray(allow)) {
+    return 'allow must be an array of glob patterns';
+  }
+  if (patterns === undefined) {
+    return undefined;
+  }
+  if (!patterns || typeof patterns !== 'object' || Array.isArray(patterns)) {
+    return 'patterns must map rule names to regexes';
+  }
+
+  for (const [name, pattern] of Object.entries(patterns)) {
+    if (typeof pattern !== 'string') {
+      return `pattern ${name} must be a string`;
+    }
+    try {
+      new RegExp(pattern);
+    } catch {
+      return `pattern ${name} is not a valid regex`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check the archive limits: counts and ratios are positive numbers, sizes
+ * are written as for --split
+ */
+function checkArchiveLimits(value: unknown): string | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'must be an object';
+  }
+
+  for (const [key, limit] of Object.entries(value)) {
+    if (key === 'maxEntries' || key === 'maxCompressionRatio') {
+      if (typeof limit !== 'number' || !(limit > 0)) {
+        return `${key} must be a positive number`;
+      }
+    } else if (key === 'maxEntrySize' || key === 'maxTotalSize') {
+      if (typeof limit !== 'string' || !isSize(limit)) {
+        return `${key} must be a size such as 512MB or 4GB`;
+      }
+    } else {
+      return `has unknown key "${key}"`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check the profiles section: each profile maps known fields to valid values
+ */
+function checkProfiles(value: unknown): string | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'must map profile names to export options';
+  }
+
+  for (const [name, profile] of Object.entries(value)) {
+    if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+      return `profile ${name} must be an object`;
+    }
+
+    for (const [key, field] of Object.entries(profile)) {
+      if (!(key in PROFILE_SCHEMA)) {
+        return `profile ${name} has unknown key "${key}"`;
+      }
+      if (!PROFILE_SCHEMA[key as keyof ExportProfile](field)) {
+        return `profile ${name} has an invalid "${key}"`;
+      }
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,100 @@
+import { createPatch, applyPatch } from 'diff';
+import { FileOperation } from '../types/index.js';
+import { getFileFromArchive, getPatchFromArchive } from './archive.js';
+import { fileExists, hashBuffer, isBinaryBuffer, readFileBuffer } from '../utils/fs.js';
+import { resolveSafePath } from '../utils/paths.js';
+import { ZipReader } from '../utils/zip.js';
+import { SyncKitError } from '../utils/errors.js';
+
+/**
+ * Create unified diffs for modified files against their base versions.
+ * Sets `delta` on each operation stored as a patch; files without a base,
+ * binary files and files whose patch would be larger keep full content.
+ * New content is read from `contents` when present, else the working tree.
+ */
+export async function createDeltas(
+  operations: FileOperation[],
+  bases: Map<string, Buffer>,
+  repoRoot: string,
+  contents: Map<string, Buffer> = new Map()
+): Promise<Map<string, string>> {
+  const patches = new Map<string, string>();
+
+  for (const op of operations) {
+    const base = bases.get(op.path);
+    if (op.type !== 'modify' || !base) {
+      continue;
+    }
+
+    const content = contents.get(op.path) ?? (await readFileBuffer(resolveSafePath(repoRoot, op.path)));
+    if (isBinaryBuffer(content)) {
+      continue;
+    }
+
+    const patch = createPatch(op.path, base.toString('utf-8'), content.toString('utf-8'));
+
+    // Fall back to full content when the patch does not save space
+    if (Buffer.byteLength(patch) >= content.length) {
+      continue;
+    }
+
+    op.delta = true;
+    patches.set(op.path, patch);
+  }
+
+  return patches;
+}
+
+/**
+ * Apply a patch to local content, tolerating unrelated local edits.
+ * Returns null if the patch does not apply.
+ */
+export function applyDeltaToLocal(local: string, patch: string): string | null {
+  const result = applyPatch(local, patch);
+  return result === false ? null : result;
+}
+
+/**
+ * Read the new content of an operation, applying its patch if it has one.
+ * Patches are only applied to the exact base version they were made against.
+ */
+export async function readOperationContent(
+  zip: ZipReader,
+  op: FileOperation,
+  targetDir: string
+): Promise<Buffer | null> {
+  if (!op.delta) {
+    return getFileFromArchive(zip, op.path, op.encoding);
+  }
+
+  const patch = await getPatchFromArchive(zip, op.path);
+  if (!patch) {
+    throw new SyncKitError('ARCHIVE_CORRUPTED', `Patch not found in archive: ${op.path}`);
+  }
+
+  const localPath = resolveSafePath(targetDir, op.path);
+  if (!fileExists(localPath)) {
+    throw new SyncKitError('TARGET_MISMATCH', `Cannot apply patch to ${op.path}: file does not exist`);
+  }
+
+  // Verify we are patching the right content
+  const local = await readFileBuffer(localPath);
+  if (hashBuffer(local) !== op.baseHash) {
+    throw new SyncKitError(
+      'TARGET_MISMATCH',
+      `Cannot apply patch to ${op.path}: local file does not match the base version`
+    );
+  }
+
+  const result = applyPatch(local.toString('utf-8'), patch);
+  if (result === false) {
+    throw new SyncKitError('TARGET_MISMATCH', `Cannot apply patch to ${op.path}: patch does not apply`);
+  }
+
+  const content = Buffer.from(result, 'utf-8');
+  if (op.hash && hashBuffer(content) !== op.hash) {
+    throw new SyncKitError('ARCHIVE_CORRUPTED', `Patched content of ${op.path} does not match the expected hash`);
+  }
+
+  return content;
+}
@@ -1,30 +1,39 @@
-import { FileOperation, Conflict, DetectedChange } from '../types/index.js';
-import { fileExists, hashFile, readFileContent } from '../utils/fs.js';
-import { getStatus } from './git.js';
+import { FileOperation, Conflict, DetectedChange, FileEncoding } from '../types/index.js';
+import { fileExists, hashFile, readFileBuffer } from '../utils/fs.js';
+import { toDisplayText } from '../utils/encoding.js';
+import { getStatus, GitRepo } from './git.js';
 import { getFileFromArchive } from './archive.js';
-import { normalizePath } from '../utils/paths.js';
-import AdmZip from 'adm-zip';
+import { mergeOperation } from './merge.js';
+import { normalizePath, resolveSafePath } from '../utils/paths.js';
+import { ZipReader } from '../utils/zip.js';
 
 /**
  * Detect conflicts between archive operations and local state
- * Optimized: fetches git status once instead of per-file
+ * Optimized: fetches git status once instead of per-file; outside a git
+ * repository only the files themselves are compared
+ *
+ * When the archive is given and carries base versions, modifications are
+ * compared against the base and trial-merged, so mergeable changes are
+ * distinguished from truly conflicting ones.
  */
 export async function detectConflicts(
   operations: FileOperation[],
-  targetDir: string
+  targetDir: string,
+  repo?: GitRepo,
+  zip?: ZipReader
 ): Promise<Conflict[]> {
   const conflicts: Conflict[] = [];
 
   // Get git status once for all files (fixes N+1 problem)
-  const status = await getStatus();
+  const status = repo ? await getStatus(repo) : undefined;
   const modifiedFiles = new Set([
-    ...status.modified.map(normalizePath),
-    ...status.staged.map(normalizePath),
-    ...status.not_added.map(normalizePath),
+    ...(status?.modified ?? []).map(normalizePath),
+    ...(status?.staged ?? []).map(normalizePath),
+    ...(status?.not_added ?? []).map(normalizePath),
   ]);
 
   for (const op of operations) {
-    const localPath = `${targetDir}/${op.path}`;
+    const localPath = resolveSafePath(targetDir, op.path);
     const localExists = fileExists(localPath);
 
     switch (op.type) {
@@ -43,7 +52,21 @@ export async function detectConflicts(
         break;
 
       case 'modify':
-        if (localExists) {
+        if (localExists && zip && op.baseHash) {
+          const localHash = await hashFile(localPath);
+
+          // Local file still matches the base or already has incoming content
+          if (localHash === op.baseHash || localHash === op.hash) {
+            break;
+          }
+
+          const merge = await mergeOperation(zip, op, targetDir);
+          conflicts.push({
+            path: op.path,
+            reason: 'modified_locally',
+            mergeable: merge !== null && merge.conflicts === 0,
+          });
+        } else if (localExists) {
           // Check if file was modified locally using cached status
           if (modifiedFiles.has(normalizePath(op.path))) {
             conflicts.push({
@@ -55,6 +78,7 @@ export async function detectConflicts(
         break;
 
       case 'delete':
+      case 'chmod':
         if (!localExists) {
           conflicts.push({
             path: op.path,
@@ -65,7 +89,7 @@ export async function detectConflicts(
 
       case 'rename':
         if (op.from) {
-          const fromExists = fileExists(`${targetDir}/${op.from}`);
+          const fromExists = fileExists(resolveSafePath(targetDir, op.from));
           if (!fromExists) {
             conflicts.push({
               path: op.from,
@@ -90,14 +114,16 @@ export async function detectConflicts(
 
 /**
  * Compare file content between archive and local
+ * Binary content is compared byte for byte and shown as a placeholder
  */
 export async function compareFileContent(
-  zip: AdmZip,
+  zip: ZipReader,
   filePath: string,
-  localDir: string
+  localDir: string,
+  encoding?: FileEncoding
 ): Promise<{ matches: boolean; localContent?: string; archiveContent?: string }> {
-  const archiveContent = getFileFromArchive(zip, filePath);
-  const localPath = `${localDir}/${filePath}`;
+  const archiveContent = await getFileFromArchive(zip, filePath, encoding);
+  const localPath = resolveSafePath(localDir, filePath);
 
   if (!archiveContent) {
     return { matches: false };
@@ -106,17 +132,16 @@ export async function compareFileContent(
   if (!fileExists(localPath)) {
     return {
       matches: false,
-      archiveContent: archiveContent.toString('utf-8'),
+      archiveContent: toDisplayText(archiveContent),
     };
   }
 
-  const localContent = await readFileContent(localPath);
-  const archiveString = archiveContent.toString('utf-8');
+  const localContent = await readFileBuffer(localPath);
 
   return {
-    matches: localContent === archiveString,
-    localContent,
-    archiveContent: archiveString,
+    matches: localContent.equals(archiveContent),
+    localContent: toDisplayText(localContent),
+    archiveContent: toDisplayText(archiveContent),
   };
 }
 
@@ -132,7 +157,7 @@ export function filterChangesByType(
 
 /**
  * Sort changes for optimal application order
- * Order: deletes first, then renames, then adds/modifies
+ * Order: deletes first, then renames, then adds/modifies, then mode changes
  */
 export function sortOperationsForApply(operations: FileOperation[]): FileOperation[] {
   const typeOrder: Record<FileOperation['type'], number> = {
@@ -140,6 +165,7 @@ export function sortOperationsForApply(operations: FileOperation[]): FileOperati
     rename: 1,
     modify: 2,
     add: 3,
+    chmod: 4,
   };
 
   return [...operations].sort((a, b) => typeOrder[a.type] - typeOrder[b.type]);
@@ -156,6 +182,7 @@ export function groupOperationsByType(
     modify: [],
     delete: [],
     rename: [],
+    chmod: [],
   };
 
   for (const op of operations) {
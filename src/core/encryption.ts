@@ -0,0 +1,376 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  KeyObject,
+  randomBytes,
+  scryptSync,
+} from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { EncryptionEnvelope, EncryptionKeySlot } from '../types/index.js';
+import { createTempDir, fileExists, readFileContent, removeTempDir } from '../utils/fs.js';
+import { getUserConfigDir } from '../utils/paths.js';
+import { writeZip, ZipReader, ZipSource } from '../utils/zip.js';
+import { SyncKitError } from '../utils/errors.js';
+
+const ENVELOPE_VERSION = '1.0';
+const CIPHER = 'aes-256-gcm';
+/** Full GCM tag length; shorter tags would weaken authentication */
+const AUTH_TAG_LENGTH = 16;
+
+/** Envelope description, stored next to the payload */
+const ENVELOPE_ENTRY = 'envelope.json';
+/** Encrypted archive */
+const PAYLOAD_ENTRY = 'payload.bin';
+/** Optional readable summary */
+const INFO_ENTRY = 'meta/info.txt';
+
+/** scrypt cost parameters for passphrase slots */
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+/** Highest scrypt parallelism accepted from an envelope */
+const SCRYPT_MAX_P = 16;
+
+const HKDF_INFO = 'sync-kit archive key';
+
+/** Default private key used to decrypt archives */
+export const DEFAULT_IDENTITY_PATH = join(getUserConfigDir(), 'identity.pem');
+
+/**
+ * Keys an archive is encrypted with
+ */
+export interface EncryptionKeys {
+  passphrase?: string;
+  recipients?: KeyObject[];
+}
+
+/**
+ * Keys available to decrypt an archive; the passphrase is only asked for when needed
+ */
+export interface DecryptionKeys {
+  /** Private key file (see loadIdentity for fallbacks) */
+  identity?: string;
+  passphrase?: () => Promise<string>;
+}
+
+/**
+ * Encrypt an archive file in place. The archive is sealed with a random
+ * content key, wrapped once per passphrase or recipient. `info` is kept
+ * readable so the envelope can be identified without decrypting. The
+ * archive is encrypted as a stream into a temporary file, as the envelope
+ * needs the authentication tag before the payload is written.
+ */
+export async function encryptArchive(
+  archivePath: string,
+  keys: EncryptionKeys,
+  info?: string
+): Promise<void> {
+  const contentKey = randomBytes(32);
+  const slots: EncryptionKeySlot[] = [];
+
+  if (keys.passphrase) {
+    const salt = randomBytes(16);
+    const wrapped = seal(derivePassphraseKey(keys.passphrase, salt, SCRYPT_PARAMS), contentKey);
+    slots.push({
+      type: 'passphrase',
+      salt: salt.toString('base64'),
+      ...SCRYPT_PARAMS,
+      iv: wrapped.iv,
+      tag: wrapped.tag,
+      key: wrapped.data.toString('base64'),
+    });
+  }
+
+  for (const recipient of keys.recipients ?? []) {
+    const ephemeral = generateKeyPairSync('x25519');
+    const ephemeralKey = ephemeral.publicKey.export({ type: 'spki', format: 'der' });
+    const wrapKey = deriveRecipientKey(ephemeral.privateKey, recipient, ephemeralKey);
+    const wrapped = seal(wrapKey, contentKey);
+    slots.push({
+      type: 'x25519',
+      keyId: getKeyId(recipient),
+      ephemeralKey: ephemeralKey.toString('base64'),
+      iv: wrapped.iv,
+      tag: wrapped.tag,
+      key: wrapped.data.toString('base64'),
+    });
+  }
+
+  if (slots.length === 0) {
+    throw new SyncKitError('USAGE', 'No passphrase or recipient to encrypt the archive for');
+  }
+
+  const workDir = await createTempDir();
+  try {
+    const payloadPath = join(workDir, PAYLOAD_ENTRY);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(CIPHER, contentKey, iv);
+    await pipeline(createReadStream(archivePath), cipher, createWriteStream(payloadPath));
+
+    const envelope: EncryptionEnvelope = {
+      version: ENVELOPE_VERSION,
+      cipher: CIPHER,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      keys: slots,
+    };
+
+    const entries = new Map<string, ZipSource>([[ENVELOPE_ENTRY, JSON.stringify(envelope, null, 2)]]);
+    if (info) {
+      entries.set(INFO_ENTRY, info);
+    }
+    // Ciphertext does not compress
+    entries.set(PAYLOAD_ENTRY, async () => createReadStream(payloadPath));
+
+    await writeZip(archivePath, entries, new Set([PAYLOAD_ENTRY]));
+  } finally {
+    await removeTempDir(workDir);
+  }
+}
+
+/**
+ * Check if a zip is an encrypted archive envelope
+ */
+export function isEncrypted(zip: ZipReader): boolean {
+  return zip.getEntry(ENVELOPE_ENTRY) !== null;
+}
+
+/**
+ * Decrypt an archive envelope with the private key or passphrase into
+ * `outputPath`. A matching recipient slot is preferred; the passphrase is
+ * asked for only when no recipient slot can be opened.
+ */
+export async function decryptArchive(zip: ZipReader, keys: DecryptionKeys, outputPath: string): Promise<void> {
+  const envelope = await getEnvelope(zip);
+  const payloadEntry = zip.getEntry(PAYLOAD_ENTRY);
+
+  if (!payloadEntry) {
+    throw new SyncKitError('ARCHIVE_INVALID', 'Encrypted archive does not contain its payload');
+  }
+
+  const contentKey = await unwrapContentKey(envelope.keys, keys);
+  const decipher = createDecipheriv(CIPHER, contentKey, Buffer.from(envelope.iv, 'base64'), {
+    authTagLength: AUTH_TAG_LENGTH,
+  });
+  decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+  // The payload is only authenticated at its end, so the output must not be
+  // used unless this resolves
+  try {
+    await pipeline(await zip.openStream(payloadEntry), decipher, createWriteStream(outputPath));
+  } catch (error) {
+    if (error instanceof SyncKitError) {
+      throw error;
+    }
+    throw new SyncKitError('ARCHIVE_CORRUPTED', 'Encrypted archive is corrupted: authentication failed');
+  }
+}
+
+/**
+ * Load an X25519 public key to encrypt for
+ */
+export async function loadRecipientKey(path: string): Promise<KeyObject> {
+  if (!fileExists(path)) {
+    throw new SyncKitError('KEY_INVALID', `Public key not found: ${path}`);
+  }
+
+  const key = createPublicKey(await readFileContent(path));
+  if (key.asymmetricKeyType !== 'x25519') {
+    throw new SyncKitError('KEY_INVALID', `Not an X25519 public key: ${path}`);
+  }
+
+  return key;
+}
+
+/**
+ * Load the X25519 private key to decrypt with: the given file, else
+ * SYNC_KIT_IDENTITY, else the default identity if it exists
+ */
+export async function loadIdentity(path?: string): Promise<KeyObject | undefined> {
+  const resolved = path || process.env.SYNC_KIT_IDENTITY || DEFAULT_IDENTITY_PATH;
+
+  if (!fileExists(resolved)) {
+    if (resolved === DEFAULT_IDENTITY_PATH) {
+      return undefined;
+    }
+    throw new SyncKitError('KEY_INVALID', `Private key not found: ${resolved}`);
+  }
+
+  const key = createPrivateKey(await readFileContent(resolved));
+  if (key.asymmetricKeyType !== 'x25519') {
+    throw new SyncKitError('KEY_INVALID', `Not an X25519 private key: ${resolved}`);
+  }
+
+  return key;
+}
+
+/**
+ * Get a short fingerprint of a public key
+ */
+export function getKeyId(key: KeyObject): string {
+  const der = key.export({ type: 'spki', format: 'der' });
+  return createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+/**
+ * Read the envelope of an encrypted archive
+ */
+async function getEnvelope(zip: ZipReader): Promise<EncryptionEnvelope> {
+  const entry = zip.getEntry(ENVELOPE_ENTRY);
+
+  if (!entry) {
+    throw new SyncKitError('ARCHIVE_INVALID', 'Archive is not encrypted');
+  }
+
+  let envelope: EncryptionEnvelope;
+  try {
+    envelope = JSON.parse(await zip.readText(entry)) as EncryptionEnvelope;
+  } catch {
+    throw new SyncKitError('ARCHIVE_INVALID', 'Encrypted archive has a malformed envelope');
+  }
+
+  if (
+    typeof envelope?.iv !== 'string' ||
+    typeof envelope.tag !== 'string' ||
+    !Array.isArray(envelope.keys) ||
+    envelope.keys.some((slot) => typeof slot?.type !== 'string')
+  ) {
+    throw new SyncKitError('ARCHIVE_INVALID', 'Invalid envelope format');
+  }
+
+  if (envelope.version !== ENVELOPE_VERSION || envelope.cipher !== CIPHER) {
+    throw new SyncKitError(
+      'ARCHIVE_INVALID',
+      `Unsupported encryption: ${envelope.cipher} (envelope ${envelope.version})`
+    );
+  }
+
+  // Truncated tags are accepted by GCM, so their length is checked up front
+  for (const tag of [envelope.tag, ...envelope.keys.map((slot) => slot.tag)]) {
+    if (typeof tag !== 'string' || Buffer.from(tag, 'base64').length !== AUTH_TAG_LENGTH) {
+      throw new SyncKitError('ARCHIVE_INVALID', 'Encrypted archive has an invalid authentication tag');
+    }
+  }
+
+  return envelope;
+}
+
+/**
+ * Recover the content key from the first key slot the available keys open
+ */
+async function unwrapContentKey(slots: EncryptionKeySlot[], keys: DecryptionKeys): Promise<Buffer> {
+  const identity = slots.some((slot) => slot.type === 'x25519') ? await loadIdentity(keys.identity) : undefined;
+
+  if (identity) {
+    const publicKey = createPublicKey(identity);
+    const keyId = getKeyId(publicKey);
+
+    for (const slot of slots) {
+      if (slot.type === 'x25519' && slot.keyId === keyId) {
+        const ephemeralKey = Buffer.from(slot.ephemeralKey, 'base64');
+        const ephemeral = createPublicKey({ key: ephemeralKey, format: 'der', type: 'spki' });
+
+        try {
+          return open(deriveRecipientKey(identity, ephemeral, ephemeralKey), slot.iv, slot.tag, slot.key);
+        } catch {
+          throw new SyncKitError('DECRYPTION_FAILED', `Key slot for ${keyId} does not open with the private key`);
+        }
+      }
+    }
+  }
+
+  const passphraseSlot = slots.find((slot) => slot.type === 'passphrase');
+  if (passphraseSlot?.type === 'passphrase' && keys.passphrase) {
+    const salt = Buffer.from(passphraseSlot.salt, 'base64');
+    const key = derivePassphraseKey(await keys.passphrase(), salt, passphraseSlot);
+
+    try {
+      return open(key, passphraseSlot.iv, passphraseSlot.tag, passphraseSlot.key);
+    } catch {
+      throw new SyncKitError('DECRYPTION_FAILED', 'Wrong passphrase');
+    }
+  }
+
+  const keyIds = slots.flatMap((slot) => (slot.type === 'x25519' ? [slot.keyId] : []));
+  if (keyIds.length === 0) {
+    throw new SyncKitError('DECRYPTION_FAILED', 'Archive is encrypted with a passphrase, but none was given');
+  }
+  throw new SyncKitError(
+    'DECRYPTION_FAILED',
+    `Archive is encrypted for key(s) ${keyIds.join(', ')}; pass --identity with a matching private key`
+  );
+}
+
+/**
+ * Derive a key from a passphrase with scrypt. The cost parameters come from
+ * the envelope, so values scrypt rejects or that exceed the memory limit
+ * mark the archive as invalid.
+ */
+function derivePassphraseKey(
+  passphrase: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number }
+): Buffer {
+  const { N, r, p } = params;
+  const valid =
+    [N, r, p].every((value) => Number.isSafeInteger(value) && value > 0) &&
+    N > 1 &&
+    (N & (N - 1)) === 0 &&
+    p <= SCRYPT_MAX_P &&
+    128 * N * r <= SCRYPT_MAXMEM;
+
+  if (!valid) {
+    throw new SyncKitError(
+      'ARCHIVE_INVALID',
+      `Encrypted archive has invalid scrypt parameters (N=${N}, r=${r}, p=${p})`
+    );
+  }
+
+  try {
+    return scryptSync(passphrase, salt, 32, { N, r, p, maxmem: SCRYPT_MAXMEM });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new SyncKitError('ARCHIVE_INVALID', `Encrypted archive has invalid scrypt parameters: ${message}`);
+  }
+}
+
+/**
+ * Derive a wrapping key from an X25519 key agreement
+ */
+function deriveRecipientKey(privateKey: KeyObject, publicKey: KeyObject, ephemeralKey: Buffer): Buffer {
+  const shared = diffieHellman({ privateKey, publicKey });
+  return Buffer.from(hkdfSync('sha256', shared, ephemeralKey, HKDF_INFO, 32));
+}
+
+/**
+ * Encrypt data with AES-256-GCM
+ */
+function seal(key: Buffer, data: Buffer): { iv: string; tag: string; data: Buffer } {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: encrypted,
+  };
+}
+
+/**
+ * Decrypt and authenticate AES-256-GCM data
+ */
+function open(key: Buffer, iv: string, tag: string, data: Buffer | string): Buffer {
+  const decipher = createDecipheriv(CIPHER, key, Buffer.from(iv, 'base64'), { authTagLength: AUTH_TAG_LENGTH });
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  const encrypted = typeof data === 'string' ? Buffer.from(data, 'base64') : data;
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+}
@@ -0,0 +1,306 @@
+import { join } from 'node:path';
+import { lstat } from 'node:fs/promises';
+import {
+  Config,
+  DetectedChange,
+  ExportBaseline,
+  ExportOptions,
+  ExportProfile,
+  Manifest,
+  SecretScanFile,
+  SourceInfo,
+} from '../types/index.js';
+import { detectChanges, getAllFiles, GitRepo } from './git.js';
+import { getHashCacheFile } from './hashes.js';
+import {
+  collectPreviousBases,
+  createBaseline,
+  detectChangesSince,
+  findPreviousExport,
+  PreviousExport,
+} from './incremental.js';
+import { createManifest, MANIFEST_VERSION_DELTA } from './manifest.js';
+import { collectBaseVersions } from './merge.js';
+import { createDeltas } from './delta.js';
+import { packCommits, PackedCommits } from './commits.js';
+import { packBundle, PackedBundle, BUNDLE_ENTRY } from './bundle.js';
+import { prepareFileEntries } from './archive.js';
+import { encodeContent, decodeContent } from '../utils/encoding.js';
+import { readFileOrLink } from '../utils/fs.js';
+import {
+  getArchiveFilePath,
+  getArchiveBasePath,
+  getArchivePatchPath,
+  getArchiveCommitFilePath,
+} from '../utils/paths.js';
+import { SyncKitError } from '../utils/errors.js';
+
+/**
+ * What an export can contain
+ */
+export interface CollectedChanges {
+  /** Changes to export in `changes` mode */
+  changes: DetectedChange[];
+  /** Every file, for a full snapshot; the working tree is scanned on the first call */
+  allFiles: () => Promise<DetectedChange[]>;
+  packed?: PackedCommits;
+  bundle?: PackedBundle;
+  /** Export continued by a --since-last export */
+  previous?: PreviousExport;
+}
+
+/**
+ * Get the patterns every export excludes; backups, history and the hash
+ * cache are never exported, wherever they are configured
+ */
+export function getDefaultExcludes(config: Config): string[] {
+  return [...config.defaultExcludes, `${config.backupDir}/**`, config.historyFile, getHashCacheFile(config)];
+}
+
+/**
+ * Apply a profile's presets to options not given explicitly;
+ * excludes from both are combined
+ */
+export function applyProfile(flags: ExportOptions, profile: ExportProfile): ExportOptions {
+  return {
+    ...flags,
+    mode: flags.mode ?? profile.mode,
+    include: flags.include ?? profile.include,
+    exclude: [...(profile.exclude ?? []), ...(flags.exclude ?? [])],
+    delta: flags.delta ?? profile.delta,
+    armor: flags.armor ?? profile.armor,
+    split: flags.split ?? profile.split,
+    encrypt: flags.encrypt ?? profile.encrypt,
+    recipients: flags.recipients ?? profile.recipients,
+    sign: flags.sign ?? profile.sign,
+  };
+}
+
+/**
+ * Fill in a profile message template
+ */
+export function renderMessageTemplate(template: string, profile: string, source: SourceInfo): string {
+  const values: Record<string, string> = {
+    profile,
+    repo: source.repo,
+    branch: source.branch,
+    commit: source.commit,
+    date: new Date().toISOString().slice(0, 10),
+  };
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Collect packed commits, a git bundle, changes since the previous export
+ * recorded in `historyDir`, or the working tree changes and files passing
+ * the filter (filters do not apply to bundles). For commits, bundles and
+ * incremental exports `source` is moved to the commit the archive is based on.
+ */
+export async function collectChanges(
+  repo: GitRepo,
+  config: Config,
+  options: ExportOptions,
+  source: SourceInfo,
+  filter: (path: string) => boolean,
+  historyDir: string
+): Promise<CollectedChanges> {
+  if (options.sinceLast) {
+    if (options.commits || options.bundle || options.mode === 'full') {
+      throw new SyncKitError('USAGE', '--since-last cannot be combined with --full, --commits or --bundle');
+    }
+
+    const previous = await findPreviousExport(historyDir, config);
+    source.commit = previous.baseline.commit;
+    return {
+      changes: await detectChangesSince(repo, config, previous.baseline, filter),
+      allFiles: async () => [],
+      previous,
+    };
+  }
+
+  if (options.commits) {
+    const packed = await packCommits(repo, options.commits, filter);
+    source.commit = packed.base.slice(0, 7);
+    source.dirty = false;
+    return { changes: packed.changes, allFiles: async () => [], packed };
+  }
+
+  if (options.bundle) {
+    // Operations only describe what the bundle contains
+    const bundle = await packBundle(repo, options.bundle === true ? 'HEAD' : options.bundle, source.branch);
+    source.commit = (bundle.base ?? bundle.tip).slice(0, 7);
+    source.dirty = false;
+    return { changes: bundle.changes, allFiles: async () => (bundle.base ? [] : bundle.changes), bundle };
+  }
+
+  let allFiles: Promise<DetectedChange[]> | undefined;
+
+  return {
+    changes: await detectChanges(repo, config, filter),
+    allFiles: () => (allFiles ??= getAllFiles(repo, config, filter)),
+  };
+}
+
+/**
+ * Create the manifest of an export, with packed commits and bundle info
+ */
+export function createExportManifest(
+  changes: DetectedChange[],
+  source: SourceInfo,
+  mode: 'changes' | 'full',
+  collected: CollectedChanges,
+  message?: string,
+  profile?: string
+): Manifest {
+  const manifest = createManifest(changes, source, mode, message);
+  manifest.profile = profile;
+
+  if (collected.packed) {
+    manifest.commits = collected.packed.commits;
+  }
+  if (collected.bundle) {
+    manifest.bundle = collected.bundle.info;
+  }
+  if (collected.previous) {
+    manifest.previous = collected.previous.archiveId;
+  }
+
+  return manifest;
+}
+
+/**
+ * Get the baseline to record for an export; packed commits and bundles
+ * record none. Files of a full snapshot that match the commit need no entry.
+ */
+export function getExportBaseline(manifest: Manifest, collected: CollectedChanges): ExportBaseline | undefined {
+  if (collected.packed || collected.bundle) {
+    return undefined;
+  }
+
+  const changed = new Set(collected.changes.map((change) => change.path));
+  const operations = manifest.mode === 'full'
+    ? manifest.operations.filter((op) => changed.has(op.path))
+    : manifest.operations;
+
+  return createBaseline(operations, manifest.source.commit, collected.previous?.baseline);
+}
+
+/**
+ * Collect the archive entries besides the manifest: file contents (binary
+ * files base64-encoded), base versions or patches for three-way merges,
+ * packed commit files and the git bundle. Storing patches switches the
+ * manifest to v2.
+ */
+export async function collectArchiveEntries(
+  repo: GitRepo,
+  manifest: Manifest,
+  collected: CollectedChanges,
+  delta?: boolean
+): Promise<Map<string, Buffer | string>> {
+  const { packed, bundle, previous } = collected;
+
+  // Record base versions so the importer can three-way merge modifications;
+  // incremental exports are based on what the previous export left
+  let bases = new Map<string, Buffer>();
+  if (previous) {
+    bases = await collectPreviousBases(repo, manifest.operations, previous.baseline);
+  } else if (manifest.mode === 'changes' && !bundle) {
+    bases = await collectBaseVersions(repo, manifest.operations, manifest.source.commit);
+  }
+  const entries = new Map<string, Buffer | string>();
+  const contents = packed?.contents ?? new Map<string, Buffer>();
+
+  if (delta && !bundle) {
+    // Ship patches instead of base + full content
+    const patches = await createDeltas(manifest.operations, bases, repo.root, contents);
+    for (const [path, patch] of patches) {
+      entries.set(getArchivePatchPath(path), patch);
+    }
+    manifest.version = MANIFEST_VERSION_DELTA;
+  } else {
+    for (const [path, base] of bases) {
+      entries.set(getArchiveBasePath(path), base);
+    }
+  }
+
+  // Binary files are stored base64-encoded so the archive stays text
+  if (!bundle) {
+    for (const [name, entry] of await prepareFileEntries(manifest.operations, repo.root, contents)) {
+      entries.set(name, entry);
+    }
+  }
+
+  // In commits mode file content comes from the range tip, not the working tree
+  for (const op of manifest.operations) {
+    const content = contents.get(op.path);
+    if (content && !op.delta) {
+      entries.set(getArchiveFilePath(op.path), encodeContent(content, op.encoding));
+    }
+  }
+  for (const [name, content] of packed?.entries ?? []) {
+    entries.set(name, content);
+  }
+  if (bundle) {
+    entries.set(BUNDLE_ENTRY, bundle.content);
+  }
+
+  return entries;
+}
+
+/**
+ * List every file to export for the secrets scan, one at a time and without
+ * reading it. Base versions and patches shipped for a file are listed as
+ * path@base and path@patch; for packed commits each intermediate version that
+ * differs is listed as well, labeled path@commit.
+ */
+export async function* listScanFiles(
+  changes: DetectedChange[],
+  repoRoot: string,
+  packed?: PackedCommits,
+  extraEntries: Map<string, Buffer | string> = new Map()
+): AsyncGenerator<SecretScanFile> {
+  for (const change of changes) {
+    if (change.type === 'delete' || change.type === 'chmod') {
+      continue;
+    }
+
+    const content = packed?.contents.get(change.path);
+    if (content) {
+      yield { file: change.path, size: content.length, read: async () => content };
+    } else {
+      const filePath = join(repoRoot, change.path);
+      const { size } = await lstat(filePath);
+      yield { file: change.path, size, read: () => readFileOrLink(filePath) };
+    }
+  }
+
+  // Deleted lines of a file live on in its base version or patch
+  for (const change of changes) {
+    for (const [label, name] of [
+      ['base', getArchiveBasePath(change.path)],
+      ['patch', getArchivePatchPath(change.path)],
+    ]) {
+      const entry = extraEntries.get(name);
+      if (entry !== undefined) {
+        const content = Buffer.from(entry);
+        yield { file: `${change.path}@${label}`, size: content.length, read: async () => content };
+      }
+    }
+  }
+
+  for (const commit of packed?.commits ?? []) {
+    for (const op of commit.operations) {
+      const entry = packed!.entries.get(getArchiveCommitFilePath(commit.hash, op.path));
+      if (entry === undefined) {
+        continue;
+      }
+
+      const content = decodeContent(Buffer.from(entry), op.encoding);
+      // Versions identical to the exported one would only repeat its findings
+      if (!content.equals(packed!.contents.get(op.path) ?? Buffer.alloc(0))) {
+        yield { file: `${op.path}@${commit.hash.slice(0, 7)}`, size: content.length, read: async () => content };
+      }
+    }
+  }
+}
@@ -1,92 +1,89 @@
 import { simpleGit, SimpleGit, StatusResult } from 'simple-git';
-import { SourceInfo, DetectedChange, OperationType } from '../types/index.js';
+import {
+  Config,
+  SourceInfo,
+  DetectedChange,
+  OperationType,
+  BaseCommitCheck,
+  CommitEntry,
+  FileMode,
+} from '../types/index.js';
 import { getRepoName, normalizePath } from '../utils/paths.js';
-import { hashFile, getFileSize, isFile } from '../utils/fs.js';
+import { hashBuffer, fileExists } from '../utils/fs.js';
+import { hashFiles } from './hashes.js';
+import { SyncKitError } from '../utils/errors.js';
 
-let git: SimpleGit | null = null;
-let repoRoot: string | null = null;
+/** Git modes of blobs sync-kit transfers (submodules and trees are skipped) */
+const FILE_MODES: FileMode[] = ['100644', '100755', '120000'];
 
 /**
- * Ensure git is initialized before operations
+ * Git repository commands run in
  */
-function ensureInitialized(): void {
-  if (!git || !repoRoot) {
-    throw new Error('Git not initialized. Call initGit() first.');
-  }
+export interface GitRepo {
+  git: SimpleGit;
+  /** Repository root, with forward slashes */
+  root: string;
 }
 
 /**
- * Initialize git instance for a repository
+ * Open the git repository containing a path
  */
-export async function initGit(path: string = process.cwd()): Promise<void> {
-  git = simpleGit(path);
+export async function openRepo(path: string = process.cwd()): Promise<GitRepo> {
+  const git = simpleGit(path);
 
   // Verify it's a git repo
   const isRepo = await git.checkIsRepo();
   if (!isRepo) {
-    throw new Error('Not a git repository');
+    throw new SyncKitError('NOT_A_REPOSITORY', 'Not a git repository');
   }
 
-  repoRoot = await git.revparse(['--show-toplevel']);
-  repoRoot = normalizePath(repoRoot.trim());
-}
-
-/**
- * Reset git state (for testing purposes)
- */
-export function resetGit(): void {
-  git = null;
-  repoRoot = null;
-}
-
-/**
- * Check if git is initialized
- */
-export function isGitInitialized(): boolean {
-  return git !== null && repoRoot !== null;
-}
-
-/**
- * Get the repository root path
- */
-export function getRepoRoot(): string {
-  ensureInitialized();
-  return repoRoot!;
+  const root = await git.revparse(['--show-toplevel']);
+  return { git, root: normalizePath(root.trim()) };
 }
 
 /**
  * Get source information about the repository
  */
-export async function getSourceInfo(): Promise<SourceInfo> {
-  ensureInitialized();
+export async function getSourceInfo(repo: GitRepo): Promise<SourceInfo> {
   const [branch, commit, status] = await Promise.all([
-    git!.revparse(['--abbrev-ref', 'HEAD']),
-    git!.revparse(['--short', 'HEAD']),
-    git!.status(),
+    repo.git.revparse(['--abbrev-ref', 'HEAD']),
+    repo.git.revparse(['--short', 'HEAD']),
+    repo.git.status(),
   ]);
 
   return {
-    repo: getRepoName(repoRoot!),
+    repo: getRepoName(repo.root),
     branch: branch.trim(),
     commit: commit.trim(),
     dirty: !status.isClean(),
   };
 }
 
+/**
+ * Get the configured git user as "Name <email>", if any
+ */
+export async function getUserIdentity(repo: GitRepo): Promise<string | undefined> {
+  const [name, email] = await Promise.all([
+    repo.git.raw(['config', 'user.name']).catch(() => ''),
+    repo.git.raw(['config', 'user.email']).catch(() => ''),
+  ]);
+
+  const identity = [name.trim(), email.trim() && `<${email.trim()}>`].filter(Boolean).join(' ');
+  return identity || undefined;
+}
+
 /**
  * Get status of all files in the repo
  */
-export async function getStatus(): Promise<StatusResult> {
-  ensureInitialized();
-  return git!.status();
+export async function getStatus(repo: GitRepo): Promise<StatusResult> {
+  return repo.git.status();
 }
 
 /**
  * Get all tracked files in the repository
  */
-export async function getTrackedFiles(): Promise<string[]> {
-  ensureInitialized();
-  const result = await git!.raw(['ls-files']);
+export async function getTrackedFiles(repo: GitRepo): Promise<string[]> {
+  const result = await repo.git.raw(['ls-files']);
   return result
     .trim()
     .split('\n')
@@ -97,9 +94,8 @@ export async function getTrackedFiles(): Promise<string[]> {
 /**
  * Get untracked files (not in .gitignore)
  */
-export async function getUntrackedFiles(): Promise<string[]> {
-  ensureInitialized();
-  const result = await git!.raw(['ls-files', '--others', '--exclude-standard']);
+export async function getUntrackedFiles(repo: GitRepo): Promise<string[]> {
+  const result = await repo.git.raw(['ls-files', '--others', '--exclude-standard']);
   return result
     .trim()
     .split('\n')
@@ -110,10 +106,9 @@ export async function getUntrackedFiles(): Promise<string[]> {
 /**
  * Get list of submodule paths (gitlinks with mode 160000)
  */
-export async function getSubmodules(): Promise<Set<string>> {
-  ensureInitialized();
+export async function getSubmodules(repo: GitRepo): Promise<Set<string>> {
   try {
-    const result = await git!.raw(['ls-files', '--stage']);
+    const result = await repo.git.raw(['ls-files', '--stage']);
     const submodules = new Set<string>();
 
     for (const line of result.split('\n')) {
@@ -135,110 +130,210 @@ export async function getSubmodules(): Promise<Set<string>> {
 }
 
 /**
- * Detect all changes (staged, unstaged, untracked)
+ * Detect all changes (staged, unstaged, untracked) of paths passing the filter
  */
-export async function detectChanges(): Promise<DetectedChange[]> {
-  ensureInitialized();
-  const status = await git!.status();
-  const changes: DetectedChange[] = [];
+export async function detectChanges(
+  repo: GitRepo,
+  config: Config,
+  filter: (path: string) => boolean = () => true
+): Promise<DetectedChange[]> {
+  const status = await repo.git.status();
+  const detected: { type: OperationType; path: string; from?: string }[] = [];
   const processedPaths = new Set<string>();
 
   // Get submodules to exclude
-  const submodules = await getSubmodules();
-
-  // Helper to add change with metadata
-  async function addChange(
-    type: OperationType,
-    path: string,
-    from?: string
-  ): Promise<void> {
-    if (processedPaths.has(path)) return;
+  const submodules = await getSubmodules(repo);
 
-    // Skip submodules
-    if (submodules.has(path)) return;
+  // Modes at HEAD, to tell mode-only changes apart
+  const headModes = await getFileModes(repo, 'HEAD').catch(() => new Map<string, FileMode>());
 
-    processedPaths.add(path);
+  // Helper to record a change; files are hashed together afterwards
+  function addChange(type: OperationType, path: string, from?: string): void {
+    if (processedPaths.has(path)) return;
 
-    const fullPath = `${repoRoot!}/${path}`;
+    // Skip submodules and filtered paths
+    if (submodules.has(path) || !filter(path)) return;
 
-    // For non-delete operations, only add if it's actually a file
-    if (type !== 'delete') {
-      if (!isFile(fullPath)) return;
-      const size = await getFileSize(fullPath);
-      const hash = await hashFile(fullPath);
-      changes.push({ type, path, from, size, hash });
-    } else {
-      changes.push({ type, path, from, size: 0 });
-    }
+    processedPaths.add(path);
+    detected.push({ type, path, from });
   }
 
   // Process renamed files
   for (const file of status.renamed) {
-    const fromPath = normalizePath(file.from);
-    const toPath = normalizePath(file.to);
-    await addChange('rename', toPath, fromPath);
+    addChange('rename', normalizePath(file.to), normalizePath(file.from));
   }
 
   // Process created files (staged)
   for (const file of status.created) {
-    await addChange('add', normalizePath(file));
+    addChange('add', normalizePath(file));
   }
 
   // Process modified files (staged and unstaged)
   for (const file of [...status.modified, ...status.staged]) {
-    const normalizedPath = normalizePath(file);
-    if (!processedPaths.has(normalizedPath)) {
-      await addChange('modify', normalizedPath);
-    }
+    addChange('modify', normalizePath(file));
   }
 
   // Process deleted files
   for (const file of status.deleted) {
-    await addChange('delete', normalizePath(file));
+    addChange('delete', normalizePath(file));
   }
 
   // Process untracked files (new files not yet staged)
   for (const file of status.not_added) {
-    const normalizedPath = normalizePath(file);
-    if (!processedPaths.has(normalizedPath)) {
-      await addChange('add', normalizedPath);
+    addChange('add', normalizePath(file));
+  }
+
+  const hashes = await hashFiles(
+    repo.root,
+    detected.filter((change) => change.type !== 'delete').map((change) => change.path),
+    config
+  );
+  const changes: DetectedChange[] = [];
+
+  for (const { type, path, from } of detected) {
+    if (type === 'delete') {
+      changes.push({ type, path, from, size: 0 });
+      continue;
+    }
+
+    // Only files and symlinks are exported
+    const file = hashes.get(path);
+    if (!file) continue;
+
+    // Same content as HEAD with a different mode
+    const headMode = headModes.get(path);
+    let changeType = type;
+    if (type === 'modify' && headMode && headMode !== file.mode) {
+      const headContent = await getFileAtCommit(repo, path, 'HEAD');
+      if (headContent && hashBuffer(headContent) === file.hash) {
+        changeType = 'chmod';
+      }
     }
+
+    changes.push({ type: changeType, path, from, size: file.size, hash: file.hash, mode: file.mode });
   }
 
   return changes;
 }
 
 /**
- * Get all files for full snapshot
+ * Get all files passing the filter for a full snapshot
  */
-export async function getAllFiles(): Promise<DetectedChange[]> {
+export async function getAllFiles(
+  repo: GitRepo,
+  config: Config,
+  filter: (path: string) => boolean = () => true
+): Promise<DetectedChange[]> {
   const [trackedFiles, untrackedFiles] = await Promise.all([
-    getTrackedFiles(),
-    getUntrackedFiles(),
+    getTrackedFiles(repo),
+    getUntrackedFiles(repo),
   ]);
 
-  const allFiles = [...new Set([...trackedFiles, ...untrackedFiles])];
+  const allFiles = [...new Set([...trackedFiles, ...untrackedFiles])].filter(filter);
+  const hashes = await hashFiles(repo.root, allFiles, config);
   const changes: DetectedChange[] = [];
 
   for (const filePath of allFiles) {
-    const fullPath = `${repoRoot!}/${filePath}`;
-
-    if (isFile(fullPath)) {
-      const size = await getFileSize(fullPath);
-      const hash = await hashFile(fullPath);
-      changes.push({ type: 'add', path: filePath, size, hash });
+    const file = hashes.get(filePath);
+    if (file) {
+      changes.push({ type: 'add', path: filePath, size: file.size, hash: file.hash, mode: file.mode });
     }
   }
 
   return changes;
 }
 
+/**
+ * Get the paths that differ between a commit and HEAD
+ */
+export async function getChangedPaths(repo: GitRepo, commit: string): Promise<string[]> {
+  const output = await repo.git.raw(['diff', '--name-only', '--no-renames', '-z', commit, 'HEAD']);
+  return output.split('\0').filter(Boolean).map(normalizePath);
+}
+
+/**
+ * Get file content at a given commit (null if the file does not exist there)
+ */
+export async function getFileAtCommit(repo: GitRepo, filePath: string, commit: string): Promise<Buffer | null> {
+  try {
+    const content = await repo.git.binaryCatFile(['-p', `${commit}:${filePath}`]);
+    return Buffer.from(content);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the modes of all files at a given commit, by path
+ */
+export async function getFileModes(repo: GitRepo, commit: string): Promise<Map<string, FileMode>> {
+  const output = await repo.git.raw(['ls-tree', '-r', '-z', commit]);
+  const modes = new Map<string, FileMode>();
+
+  // Format: <mode> <type> <hash>\t<path>\0
+  for (const record of output.split('\0')) {
+    if (!record) continue;
+
+    const [meta, path] = record.split('\t');
+    const mode = meta.split(' ')[0] as FileMode;
+    if (FILE_MODES.includes(mode)) {
+      modes.set(path, mode);
+    }
+  }
+
+  return modes;
+}
+
+/**
+ * Compare the archive's source commit against the current HEAD
+ */
+export async function checkBaseCommit(repo: GitRepo, sourceCommit: string): Promise<BaseCommitCheck> {
+  const [branch, head] = await Promise.all([
+    repo.git.revparse(['--abbrev-ref', 'HEAD']),
+    repo.git.revparse(['HEAD']),
+  ]);
+
+  const check: BaseCommitCheck = {
+    sourceCommit,
+    targetCommit: head.trim().slice(0, 7),
+    targetBranch: branch.trim(),
+    known: false,
+    matches: false,
+    contains: false,
+    ahead: 0,
+    behind: 0,
+  };
+
+  // Prints nothing when the commit is unknown
+  const fullSource = (
+    await repo.git.raw(['rev-parse', '--verify', '--quiet', `${sourceCommit}^{commit}`])
+  ).trim();
+
+  if (!fullSource) {
+    return check;
+  }
+
+  check.known = true;
+  check.matches = fullSource === head.trim();
+
+  // HEAD contains the source commit when it is the merge base
+  const mergeBase = await repo.git.raw(['merge-base', fullSource, 'HEAD']);
+  check.contains = mergeBase.trim() === fullSource;
+
+  // Output: <commits only in source>\t<commits only in HEAD>
+  const counts = await repo.git.raw(['rev-list', '--left-right', '--count', `${fullSource}...HEAD`]);
+  const [behind, ahead] = counts.trim().split(/\s+/).map(Number);
+  check.behind = behind || 0;
+  check.ahead = ahead || 0;
+
+  return check;
+}
+
 /**
  * Check if a file is modified locally (has uncommitted changes)
  */
-export async function isFileModifiedLocally(filePath: string): Promise<boolean> {
-  ensureInitialized();
-  const status = await git!.status();
+export async function isFileModifiedLocally(repo: GitRepo, filePath: string): Promise<boolean> {
+  const status = await repo.git.status();
   const normalizedPath = normalizePath(filePath);
 
   return (
@@ -247,3 +342,273 @@ export async function isFileModifiedLocally(filePath: string): Promise<boolean>
     status.not_added.some((f) => normalizePath(f) === normalizedPath)
   );
 }
+
+/**
+ * Resolve a commit range ("base..tip" or "base", meaning base..HEAD) to full hashes
+ */
+export async function resolveCommitRange(repo: GitRepo, range: string): Promise<{ base: string; tip: string }> {
+  const [baseRef, tipRef] = range.includes('..') ? range.split('..') : [range, 'HEAD'];
+
+  return {
+    base: await resolveRevision(repo, baseRef || 'HEAD'),
+    tip: await resolveRevision(repo, tipRef || 'HEAD'),
+  };
+}
+
+/**
+ * Resolve a revision to a full commit hash
+ */
+export async function resolveRevision(repo: GitRepo, ref: string): Promise<string> {
+  const hash = (await repo.git.raw(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).trim();
+  if (!hash) {
+    throw new SyncKitError('USAGE', `Unknown revision: ${ref}`);
+  }
+  return hash;
+}
+
+/**
+ * Get commits between base (exclusive) and tip (inclusive), oldest first
+ */
+export async function getCommitsInRange(repo: GitRepo, base: string, tip: string): Promise<CommitEntry[]> {
+  // Fields separated by \x1f, records by \x1e
+  const output = await repo.git.raw([
+    'log',
+    '--reverse',
+    '--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%B%x1e',
+    `${base}..${tip}`,
+  ]);
+
+  const commits: CommitEntry[] = [];
+
+  for (const record of output.split('\x1e')) {
+    const trimmed = record.replace(/^\n/, '');
+    if (!trimmed) continue;
+
+    const [hash, name, email, date, message] = trimmed.split('\x1f');
+    commits.push({
+      hash,
+      message: message.trimEnd(),
+      author: { name, email },
+      date,
+      operations: [],
+    });
+  }
+
+  return commits;
+}
+
+/**
+ * Get the merge commits between base (exclusive) and tip (inclusive)
+ */
+export async function getMergeCommits(repo: GitRepo, base: string, tip: string): Promise<string[]> {
+  const output = await repo.git.raw(['rev-list', '--min-parents=2', `${base}..${tip}`]);
+  return output.split('\n').filter(Boolean);
+}
+
+/**
+ * Get file changes introduced by a single commit, with content read from it
+ */
+export async function getCommitChanges(
+  repo: GitRepo,
+  hash: string
+): Promise<Array<DetectedChange & { content?: Buffer }>> {
+  const output = await repo.git.raw([
+    'diff-tree',
+    '--no-commit-id',
+    '--root',
+    '-r',
+    '-M',
+    '--raw',
+    '-z',
+    '--no-abbrev',
+    hash,
+  ]);
+  return parseRawDiff(repo, output, hash);
+}
+
+/**
+ * Get squashed file changes between two commits, with content read from tip
+ */
+export async function getRangeChanges(
+  repo: GitRepo,
+  base: string,
+  tip: string
+): Promise<Array<DetectedChange & { content?: Buffer }>> {
+  const output = await repo.git.raw(['diff', '--raw', '-z', '--no-abbrev', '-M', base, tip]);
+  return parseRawDiff(repo, output, tip);
+}
+
+/**
+ * Parse `--raw -z` diff output into changes with blob content from a commit.
+ * Paths are NUL-separated, so tabs, newlines and quotes in names are kept
+ * as is. Mode-only changes carry no content.
+ */
+async function parseRawDiff(
+  repo: GitRepo,
+  output: string,
+  commit: string
+): Promise<Array<DetectedChange & { content?: Buffer }>> {
+  const changes: Array<DetectedChange & { content?: Buffer }> = [];
+
+  // Format: :<old mode> <new mode> <old hash> <new hash> <status>\0<path>\0[<to>\0]
+  const fields = output.split('\0');
+
+  for (let i = 0; i < fields.length; i++) {
+    const meta = fields[i];
+    if (!meta.startsWith(':')) continue;
+
+    const [, newMode, oldHash, newHash, status] = meta.slice(1).split(' ');
+    const code = status.charAt(0);
+    // Renames and copies list the source path before the destination
+    const pathCount = code === 'R' || code === 'C' ? 2 : 1;
+    const paths = fields.slice(i + 1, i + 1 + pathCount);
+    i += pathCount;
+    let type: OperationType;
+    let path = normalizePath(paths[paths.length - 1]);
+    let from: string | undefined;
+
+    switch (code) {
+      case 'A':
+      case 'C':
+        type = 'add';
+        break;
+      case 'M':
+      case 'T':
+        type = 'modify';
+        break;
+      case 'D':
+        type = 'delete';
+        break;
+      case 'R':
+        type = 'rename';
+        from = normalizePath(paths[0]);
+        break;
+      default:
+        continue;
+    }
+
+    if (type === 'delete') {
+      changes.push({ type, path, size: 0 });
+      continue;
+    }
+
+    // Skip entries without blob content (e.g. submodules)
+    const mode = newMode as FileMode;
+    if (!FILE_MODES.includes(mode)) continue;
+
+    const content = await getFileAtCommit(repo, path, commit);
+    if (!content) continue;
+
+    // Same blob with a different mode
+    if (type === 'modify' && oldHash === newHash) {
+      changes.push({ type: 'chmod', path, size: content.length, hash: hashBuffer(content), mode });
+      continue;
+    }
+
+    changes.push({ type, path, from, size: content.length, hash: hashBuffer(content), mode, content });
+  }
+
+  return changes;
+}
+
+/**
+ * Get the full hash of HEAD
+ */
+export async function getHeadCommit(repo: GitRepo): Promise<string> {
+  return (await repo.git.revparse(['HEAD'])).trim();
+}
+
+/**
+ * Check if the working tree has no uncommitted changes to tracked files
+ */
+export async function hasCleanWorkingTree(repo: GitRepo): Promise<boolean> {
+  const status = await repo.git.status();
+  return status.files.every((file) => file.index === '?' && file.working_dir === '?');
+}
+
+/**
+ * Stage the given paths and commit them with the original commit metadata
+ */
+export async function createCommit(
+  repo: GitRepo,
+  commit: Pick<CommitEntry, 'message' | 'author' | 'date'>,
+  paths: string[]
+): Promise<string> {
+  const present = paths.filter((path) => fileExists(`${repo.root}/${path}`));
+  const missing = paths.filter((path) => !present.includes(path));
+
+  if (present.length > 0) {
+    await repo.git.raw(['add', '-A', '--', ...present]);
+  }
+  // Stage removals; paths that were never tracked are ignored
+  if (missing.length > 0) {
+    await repo.git.raw(['rm', '--cached', '--ignore-unmatch', '-q', '--', ...missing]);
+  }
+
+  await repo.git.raw([
+    'commit',
+    '--allow-empty',
+    '--allow-empty-message',
+    '--no-verify',
+    '-m',
+    commit.message,
+    `--author=${commit.author.name} <${commit.author.email}>`,
+    `--date=${commit.date}`,
+  ]);
+
+  return getHeadCommit(repo);
+}
+
+/**
+ * Reset HEAD, index and working tree to a commit, removing the given untracked paths
+ */
+export async function resetToCommit(repo: GitRepo, commit: string, untrackedPaths: string[] = []): Promise<void> {
+  await repo.git.raw(['reset', '--hard', commit]);
+
+  if (untrackedPaths.length > 0) {
+    await repo.git.raw(['clean', '-f', '--', ...untrackedPaths]);
+  }
+}
+
+/**
+ * Get the hash of the empty tree (base for diffs of a full history)
+ */
+export async function getEmptyTree(repo: GitRepo): Promise<string> {
+  const format = (await repo.git.raw(['rev-parse', '--show-object-format'])).trim();
+  return format === 'sha256'
+    ? '6ef19b41225c5369f1c104d45d8d85efa9b057b53b14b4b9b939dd74decc5321'
+    : '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+}
+
+/**
+ * Create a git bundle file from rev-list arguments
+ */
+export async function createBundle(repo: GitRepo, outputFile: string, revs: string[]): Promise<void> {
+  await repo.git.raw(['bundle', 'create', outputFile, ...revs]);
+}
+
+/**
+ * Fetch refs from a bundle file into local refs (src:dst pairs)
+ */
+export async function fetchFromBundle(
+  repo: GitRepo,
+  bundleFile: string,
+  refspecs: Array<{ src: string; dst: string }>
+): Promise<void> {
+  await repo.git.raw(['fetch', bundleFile, ...refspecs.map(({ src, dst }) => `+${src}:${dst}`)]);
+}
+
+/**
+ * Check whether a commit exists in the repository
+ */
+export async function hasCommit(repo: GitRepo, commit: string): Promise<boolean> {
+  const hash = await repo.git.raw(['rev-parse', '--verify', '--quiet', `${commit}^{commit}`]);
+  return hash.trim().length > 0;
+}
+
+/**
+ * Fast-forward the current branch to a ref
+ */
+export async function fastForwardTo(repo: GitRepo, ref: string): Promise<void> {
+  await repo.git.raw(['merge', '--ff-only', ref]);
+}
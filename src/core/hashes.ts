@@ -0,0 +1,112 @@
+import { join, posix } from 'node:path';
+import { lstat, readFile, writeFile } from 'node:fs/promises';
+import { Config, HashCacheEntry, HashedFile } from '../types/index.js';
+import { ensureParentDir, fileExists, getStatsMode, hashFile } from '../utils/fs.js';
+
+/** Number of files hashed at the same time */
+const HASH_CONCURRENCY = 8;
+
+/** Name of the hash cache, kept next to the history file */
+const HASH_CACHE_NAME = 'hashes.json';
+
+/**
+ * Files modified less than this many ms before hashing started are not
+ * cached: a write within the same timestamp would leave the cache stale
+ */
+const RACY_WINDOW = 2000;
+
+/**
+ * Get the hash cache file relative to the repository root
+ */
+export function getHashCacheFile(config: Config): string {
+  return posix.join(posix.dirname(config.historyFile), HASH_CACHE_NAME);
+}
+
+/**
+ * Hash working tree files given relative to the repository root, a few at
+ * a time. Files whose size, mtime and inode match the cache are not read
+ * again; paths that are neither files nor symlinks are left out.
+ */
+export async function hashFiles(
+  repoRoot: string,
+  paths: string[],
+  config: Config
+): Promise<Map<string, HashedFile>> {
+  const cachePath = join(repoRoot, getHashCacheFile(config));
+  const cache = await loadHashCache(cachePath);
+  const hashed = new Map<string, HashedFile>();
+  const startedAt = Date.now();
+
+  await runPool(paths, HASH_CONCURRENCY, async (path) => {
+    const fullPath = join(repoRoot, path);
+    const stats = await lstat(fullPath).catch(() => null);
+    const mode = stats && getStatsMode(stats);
+
+    if (!stats || !mode) {
+      cache.delete(path);
+      return;
+    }
+
+    const cached = cache.get(path);
+    if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs && cached.ino === stats.ino) {
+      hashed.set(path, { hash: cached.hash, size: stats.size, mode });
+      return;
+    }
+
+    const hash = await hashFile(fullPath);
+    hashed.set(path, { hash, size: stats.size, mode });
+
+    if (stats.mtimeMs < startedAt - RACY_WINDOW) {
+      cache.set(path, { size: stats.size, mtimeMs: stats.mtimeMs, ino: stats.ino, hash });
+    } else {
+      cache.delete(path);
+    }
+  });
+
+  await saveHashCache(cachePath, cache);
+  return hashed;
+}
+
+/**
+ * Load a hash cache; a missing or unreadable cache is empty
+ */
+async function loadHashCache(cachePath: string): Promise<Map<string, HashCacheEntry>> {
+  if (!fileExists(cachePath)) {
+    return new Map();
+  }
+
+  try {
+    const entries: Record<string, HashCacheEntry> = JSON.parse(await readFile(cachePath, 'utf-8'));
+    return new Map(Object.entries(entries));
+  } catch {
+    return new Map();
+  }
+}
+
+/**
+ * Save a hash cache; failing to write it only costs hashing the files
+ * again next time
+ */
+async function saveHashCache(cachePath: string, cache: Map<string, HashCacheEntry>): Promise<void> {
+  try {
+    await ensureParentDir(cachePath);
+    await writeFile(cachePath, JSON.stringify(Object.fromEntries(cache)));
+  } catch {
+    // Read-only checkouts still export
+  }
+}
+
+/**
+ * Run a task for every item with at most `limit` tasks in flight
+ */
+async function runPool<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
@@ -0,0 +1,93 @@
+import { dirname, join } from 'node:path';
+import { readFile, writeFile } from 'node:fs/promises';
+import { Config, HistoryEntry } from '../types/index.js';
+import { fileExists, ensureDir, remove } from '../utils/fs.js';
+
+/** Number of entries kept in the history file */
+const MAX_ENTRIES = 50;
+
+/** Name of the file holding the id of the last imported archive, kept next to the history file */
+const LAST_IMPORT_NAME = 'last-import.json';
+
+/**
+ * Get the history file of a directory
+ */
+export function getHistoryPath(dir: string, config: Config): string {
+  return join(dir, config.historyFile);
+}
+
+/**
+ * Get the file holding the id of the archive imported last into a directory
+ */
+export function getLastImportPath(dir: string, config: Config): string {
+  return join(dir, dirname(config.historyFile), LAST_IMPORT_NAME);
+}
+
+/**
+ * Get the id of the archive imported last into a directory. It is kept
+ * outside the history, which is capped and can be cleared, so that the
+ * next archive of an incremental chain can still be imported.
+ */
+export async function loadLastImport(dir: string, config: Config): Promise<string | undefined> {
+  const lastImportPath = getLastImportPath(dir, config);
+
+  if (!fileExists(lastImportPath)) {
+    return undefined;
+  }
+
+  try {
+    const { archiveId } = JSON.parse(await readFile(lastImportPath, 'utf-8'));
+    return typeof archiveId === 'string' ? archiveId : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Load the history of a directory, newest first
+ */
+export async function loadHistory(dir: string, config: Config): Promise<HistoryEntry[]> {
+  const historyPath = getHistoryPath(dir, config);
+
+  if (!fileExists(historyPath)) {
+    return [];
+  }
+
+  const content = await readFile(historyPath, 'utf-8');
+  return JSON.parse(content);
+}
+
+/**
+ * Add an entry to the history of a directory; an imported archive also
+ * becomes the last import
+ */
+export async function addHistoryEntry(
+  dir: string,
+  config: Config,
+  entry: Omit<HistoryEntry, 'timestamp'>
+): Promise<void> {
+  const entries = await loadHistory(dir, config);
+
+  entries.unshift({ timestamp: new Date().toISOString(), ...entry });
+
+  await saveHistory(getHistoryPath(dir, config), entries.slice(0, MAX_ENTRIES));
+
+  if (entry.type === 'import' && entry.archiveId) {
+    await writeFile(getLastImportPath(dir, config), JSON.stringify({ archiveId: entry.archiveId }, null, 2));
+  }
+}
+
+/**
+ * Remove the history file of a directory; the last import is kept
+ */
+export async function clearHistory(dir: string, config: Config): Promise<void> {
+  await remove(getHistoryPath(dir, config));
+}
+
+/**
+ * Save history to file
+ */
+async function saveHistory(historyPath: string, entries: HistoryEntry[]): Promise<void> {
+  await ensureDir(dirname(historyPath));
+  await writeFile(historyPath, JSON.stringify(entries, null, 2));
+}
@@ -0,0 +1,240 @@
+import {
+  BaseCommitCheck,
+  Config,
+  Conflict,
+  ConflictPolicy,
+  ConflictResolution,
+  FetchedRef,
+  FileOperation,
+  ImportResult,
+  Manifest,
+  MergedOperation,
+  SignatureCheck,
+} from '../types/index.js';
+import { openRepo, hasCleanWorkingTree, GitRepo } from './git.js';
+import { mergeOperation } from './merge.js';
+import { getFetchedRefs, getMissingPrerequisites } from './bundle.js';
+import { loadHistory, loadLastImport } from './history.js';
+import { ZipReader } from '../utils/zip.js';
+import { SyncKitError } from '../utils/errors.js';
+
+/**
+ * Resolve the import target; inside a git repository the repository root is used
+ */
+export async function openTarget(target: string): Promise<{ targetDir: string; repo?: GitRepo }> {
+  try {
+    const repo = await openRepo(target);
+    return { targetDir: repo.root, repo };
+  } catch {
+    // Not a git repo, use target as-is
+    return { targetDir: target };
+  }
+}
+
+/**
+ * Refuse an incremental archive unless the archive it continues was the
+ * last import into `historyDir` or is in its history, so archives apply in order
+ */
+export async function checkPredecessor(manifest: Manifest, historyDir: string, config: Config): Promise<void> {
+  if (!manifest.previous || (await loadLastImport(historyDir, config)) === manifest.previous) {
+    return;
+  }
+
+  const history = await loadHistory(historyDir, config);
+  if (!history.some((entry) => entry.type === 'import' && entry.archiveId === manifest.previous)) {
+    throw new SyncKitError(
+      'PREDECESSOR_NOT_APPLIED',
+      `Archive continues archive ${manifest.previous}, which has not been imported here; ` +
+        'import the archives in the order they were exported'
+    );
+  }
+}
+
+/**
+ * Refuse archives whose signature does not match, and unless signed by a
+ * trusted key when a signature is required
+ */
+export function checkSignature(signature: SignatureCheck, requireSignature?: boolean): void {
+  if (signature.status === 'invalid') {
+    throw new SyncKitError('SIGNATURE_INVALID', `Archive signature is invalid: ${signature.reason}`);
+  }
+  if (requireSignature && signature.status !== 'valid') {
+    throw new SyncKitError(
+      'SIGNATURE_REQUIRED',
+      signature.status === 'unsigned'
+        ? 'Archive is not signed (--require-signature)'
+        : `Archive is signed with untrusted key ${signature.keyId} (--require-signature)`
+    );
+  }
+}
+
+/**
+ * Resolve a conflict by policy; patches need the base version, so they are
+ * skipped rather than overwritten
+ */
+export function getPolicyResolution(
+  policy: Exclude<ConflictPolicy, 'fail'>,
+  op: FileOperation | undefined
+): ConflictResolution {
+  if (policy === 'ours') {
+    return 'keep';
+  }
+  if (policy === 'theirs' && !op?.delta) {
+    return 'overwrite';
+  }
+  return 'skip';
+}
+
+/**
+ * Resolve conflicts that merge cleanly by merging them; returns the rest
+ */
+export function resolveMergeable(
+  conflicts: Conflict[],
+  resolutions: Map<string, ConflictResolution>
+): Conflict[] {
+  return conflicts.filter((conflict) => {
+    if (conflict.mergeable) {
+      resolutions.set(conflict.path, 'merge');
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Refuse to go on while conflicts are left to resolve
+ */
+export function checkUnresolved(count: number): void {
+  if (count > 0) {
+    throw new SyncKitError(
+      'CONFLICTS',
+      `Import stopped: ${count} conflict(s) to resolve, pass --on-conflict=ours, theirs or skip`
+    );
+  }
+}
+
+/**
+ * Split operations into those to apply and those skipped or kept local
+ */
+export function splitSkipped(
+  operations: FileOperation[],
+  resolutions: Map<string, ConflictResolution>
+): { operations: FileOperation[]; skipped: FileOperation[] } {
+  const skipped: FileOperation[] = [];
+  const remaining = operations.filter((op) => {
+    const resolution = resolutions.get(op.path);
+    if (resolution === 'skip' || resolution === 'keep') {
+      skipped.push(op);
+      return false;
+    }
+    return true;
+  });
+
+  return { operations: remaining, skipped };
+}
+
+/**
+ * Three-way merge local and incoming versions of operations resolved by merging.
+ * Returns the merged contents by path along with each merged operation.
+ */
+export async function mergeResolved(
+  zip: ZipReader,
+  operations: FileOperation[],
+  resolutions: Map<string, ConflictResolution>,
+  targetDir: string
+): Promise<{ contents: Map<string, Buffer>; merged: MergedOperation[] }> {
+  const contents = new Map<string, Buffer>();
+  const merged: MergedOperation[] = [];
+
+  for (const op of operations) {
+    if (resolutions.get(op.path) !== 'merge') {
+      continue;
+    }
+
+    const outcome = await mergeOperation(zip, op, targetDir);
+    if (!outcome) {
+      throw new SyncKitError('MERGE_UNAVAILABLE', `Cannot merge ${op.path}: base version not available`);
+    }
+
+    contents.set(op.path, Buffer.from(outcome.content, 'utf-8'));
+    merged.push({ op, conflicts: outcome.conflicts });
+  }
+
+  return { contents, merged };
+}
+
+/**
+ * Refuse to replay packed commits unless the target HEAD contains the source
+ * commit and the working tree is clean
+ */
+export async function checkReplayable(repo: GitRepo, manifest: Manifest, baseCheck: BaseCommitCheck): Promise<void> {
+  if (!baseCheck.contains) {
+    throw new SyncKitError(
+      'BASE_COMMIT_MISSING',
+      `Cannot replay commits: HEAD does not contain source commit ${manifest.source.commit}. ` +
+        'Use --squash to apply them as working tree changes'
+    );
+  }
+
+  if (!(await hasCleanWorkingTree(repo))) {
+    throw new SyncKitError(
+      'DIRTY_WORKING_TREE',
+      'Cannot replay commits: working tree has uncommitted changes. Commit or stash them, or use --squash'
+    );
+  }
+}
+
+/**
+ * Get the refs an embedded bundle is fetched into, and the one of the source
+ * branch to fast-forward to. Refuses bundles whose prerequisites are missing.
+ */
+export async function getBundleRefs(
+  repo: GitRepo,
+  manifest: Manifest
+): Promise<{ refs: FetchedRef[]; sourceRef: FetchedRef }> {
+  const bundle = manifest.bundle!;
+  const refs = getFetchedRefs(bundle, manifest.source.branch);
+
+  // Prefer the ref of the source branch for fast-forwarding
+  const sourceRef = refs.find(
+    (ref) => ref.name === 'HEAD' || ref.name === `refs/heads/${manifest.source.branch}`
+  ) ?? refs[0];
+
+  const missing = await getMissingPrerequisites(repo, bundle);
+  if (missing.length > 0) {
+    throw new SyncKitError(
+      'BASE_COMMIT_MISSING',
+      `Cannot fetch bundle: target is missing prerequisite commit(s) ${missing.map((hash) => hash.slice(0, 7)).join(', ')}`
+    );
+  }
+
+  return { refs, sourceRef };
+}
+
+/**
+ * Get the result of a dry run, listing what would be applied
+ */
+export function getDryRunResult(operations: FileOperation[]): ImportResult {
+  return {
+    applied: operations,
+    skipped: [],
+    merged: [],
+    conflicts: [],
+    committed: false,
+    dryRun: true,
+  };
+}
+
+/**
+ * Get the operations that carry file content
+ */
+export function getContentOperations(operations: FileOperation[]): FileOperation[] {
+  return operations.filter((op) => op.type !== 'delete' && op.type !== 'chmod');
+}
+
+/**
+ * Get the total size of the content written by the operations, for byte-level progress
+ */
+export function getContentSize(operations: FileOperation[]): number {
+  return getContentOperations(operations).reduce((sum, op) => sum + (op.size ?? 0), 0);
+}
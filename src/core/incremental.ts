@@ -0,0 +1,156 @@
+import { BaselineFile, Config, DetectedChange, ExportBaseline, FileMode, FileOperation } from '../types/index.js';
+import { getChangedPaths, getFileAtCommit, getFileModes, getStatus, getSubmodules, GitRepo } from './git.js';
+import { hashFiles } from './hashes.js';
+import { loadHistory } from './history.js';
+import { collectBaseVersions } from './merge.js';
+import { hashBuffer } from '../utils/fs.js';
+import { normalizePath } from '../utils/paths.js';
+import { SyncKitError } from '../utils/errors.js';
+
+/**
+ * Export an incremental export continues
+ */
+export interface PreviousExport {
+  archiveId: string;
+  baseline: ExportBaseline;
+}
+
+/**
+ * Find the newest export in the history of a directory; it must have been
+ * a working tree export recorded with its baseline
+ */
+export async function findPreviousExport(dir: string, config: Config): Promise<PreviousExport> {
+  const entry = (await loadHistory(dir, config)).find((e) => e.type === 'export');
+
+  if (!entry) {
+    throw new SyncKitError('PREVIOUS_EXPORT_NOT_FOUND', 'No previous export in the history, export changes first');
+  }
+  if (!entry.archiveId || !entry.baseline) {
+    throw new SyncKitError(
+      'PREVIOUS_EXPORT_NOT_FOUND',
+      'The last export cannot be continued: commits, bundles and older exports record no file state'
+    );
+  }
+
+  return { archiveId: entry.archiveId, baseline: entry.baseline };
+}
+
+/**
+ * Detect changes of paths passing the filter between the baseline of the
+ * previous export and the working tree. Only files changed in the working
+ * tree, since the baseline commit or by earlier exports are compared.
+ */
+export async function detectChangesSince(
+  repo: GitRepo,
+  config: Config,
+  baseline: ExportBaseline,
+  filter: (path: string) => boolean
+): Promise<DetectedChange[]> {
+  const [status, committed, submodules, baseModes] = await Promise.all([
+    getStatus(repo),
+    getChangedPaths(repo, baseline.commit).catch(() => {
+      throw new SyncKitError(
+        'BASE_COMMIT_MISSING',
+        `Commit ${baseline.commit} of the previous export is not in this repository`
+      );
+    }),
+    getSubmodules(repo),
+    getFileModes(repo, baseline.commit).catch(() => new Map<string, FileMode>()),
+  ]);
+
+  const working = status.files.flatMap((file) => (file.from ? [file.path, file.from] : [file.path]));
+  const paths = [...new Set([...Object.keys(baseline.files), ...working.map(normalizePath), ...committed])]
+    .filter((path) => filter(path) && !submodules.has(path))
+    .sort();
+  const current = await hashFiles(repo.root, paths, config);
+  const changes: DetectedChange[] = [];
+
+  for (const path of paths) {
+    const before = await getBaselineFile(repo, baseline, path, baseModes);
+    const after = current.get(path);
+
+    if (!after) {
+      if (before) {
+        changes.push({ type: 'delete', path, size: 0 });
+      }
+    } else if (!before) {
+      changes.push({ type: 'add', path, ...after });
+    } else if (before.hash !== after.hash) {
+      changes.push({ type: 'modify', path, ...after });
+    } else if (before.mode !== after.mode) {
+      changes.push({ type: 'chmod', path, ...after });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Collect base versions of modified files as the receiver has them after
+ * the previous export. Files changed by earlier exports are only known by
+ * hash: they are checked for local changes on import but not merged.
+ */
+export async function collectPreviousBases(
+  repo: GitRepo,
+  operations: FileOperation[],
+  baseline: ExportBaseline
+): Promise<Map<string, Buffer>> {
+  const fromCommit: FileOperation[] = [];
+
+  for (const op of operations) {
+    const file = Object.hasOwn(baseline.files, op.path) ? baseline.files[op.path] : undefined;
+
+    if (file === undefined) {
+      fromCommit.push(op);
+    } else if (file && op.type === 'modify' && op.mode !== '120000') {
+      op.baseHash = file.hash;
+    }
+  }
+
+  return collectBaseVersions(repo, fromCommit, baseline.commit);
+}
+
+/**
+ * Get the baseline after applying operations on top of a commit, or on top
+ * of the baseline they continue
+ */
+export function createBaseline(
+  operations: FileOperation[],
+  commit: string,
+  previous?: ExportBaseline
+): ExportBaseline {
+  const files = { ...previous?.files };
+
+  for (const op of operations) {
+    if (op.type === 'delete') {
+      files[op.path] = null;
+      continue;
+    }
+    if (op.type === 'rename' && op.from) {
+      files[op.from] = null;
+    }
+    if (op.hash && op.mode) {
+      files[op.path] = { hash: op.hash, mode: op.mode };
+    }
+  }
+
+  return { commit: previous?.commit ?? commit, files };
+}
+
+/**
+ * Get a file as the baseline has it, null if it does not exist there
+ */
+async function getBaselineFile(
+  repo: GitRepo,
+  baseline: ExportBaseline,
+  path: string,
+  baseModes: Map<string, FileMode>
+): Promise<BaselineFile | null> {
+  if (Object.hasOwn(baseline.files, path)) {
+    return baseline.files[path];
+  }
+
+  const mode = baseModes.get(path);
+  const content = mode ? await getFileAtCommit(repo, path, baseline.commit) : null;
+  return content && mode ? { hash: hashBuffer(content), mode } : null;
+}
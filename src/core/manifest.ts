@@ -1,7 +1,17 @@
-import { Manifest, FileOperation, SourceInfo, ExportStats, DetectedChange } from '../types/index.js';
+import { randomUUID } from 'node:crypto';
+import { Manifest, FileOperation, FileEncoding, SourceInfo, ExportStats, DetectedChange } from '../types/index.js';
+import { describeBinary } from '../utils/encoding.js';
+import { SyncKitError } from '../utils/errors.js';
 
 const MANIFEST_VERSION = '1.0';
 
+/** Manifest version for archives carrying patches */
+export const MANIFEST_VERSION_DELTA = '2.0';
+
+const SUPPORTED_VERSIONS = [MANIFEST_VERSION, MANIFEST_VERSION_DELTA];
+
+const FILE_ENCODINGS: FileEncoding[] = ['utf8', 'base64'];
+
 /**
  * Create a new manifest from detected changes
  */
@@ -11,29 +21,12 @@ export function createManifest(
   mode: 'changes' | 'full',
   message?: string
 ): Manifest {
-  const operations: FileOperation[] = changes.map((change) => {
-    const op: FileOperation = {
-      type: change.type,
-      path: change.path,
-    };
-
-    if (change.from) {
-      op.from = change.from;
-    }
-    if (change.size !== undefined && change.type !== 'delete') {
-      op.size = change.size;
-    }
-    if (change.hash) {
-      op.hash = change.hash;
-    }
-
-    return op;
-  });
-
+  const operations = changes.map(toFileOperation);
   const stats = calculateStats(changes);
 
   return {
     version: MANIFEST_VERSION,
+    id: randomUUID(),
     created: new Date().toISOString(),
     source,
     mode,
@@ -43,6 +36,31 @@ export function createManifest(
   };
 }
 
+/**
+ * Convert a detected change to a manifest file operation
+ */
+export function toFileOperation(change: DetectedChange): FileOperation {
+  const op: FileOperation = {
+    type: change.type,
+    path: change.path,
+  };
+
+  if (change.from) {
+    op.from = change.from;
+  }
+  if (change.size !== undefined && change.type !== 'delete') {
+    op.size = change.size;
+  }
+  if (change.hash) {
+    op.hash = change.hash;
+  }
+  if (change.mode) {
+    op.mode = change.mode;
+  }
+
+  return op;
+}
+
 /**
  * Calculate statistics from changes
  */
@@ -63,6 +81,10 @@ export function calculateStats(changes: DetectedChange[]): ExportStats {
         modified++;
         totalSize += change.size;
         break;
+      case 'chmod':
+        // Mode changes carry no content
+        modified++;
+        break;
       case 'delete':
         deleted++;
         break;
@@ -84,7 +106,21 @@ export function parseManifest(json: string): Manifest {
 
   // Validate required fields
   if (!data.version || !data.operations || !Array.isArray(data.operations)) {
-    throw new Error('Invalid manifest format');
+    throw new SyncKitError('ARCHIVE_INVALID', 'Invalid manifest format');
+  }
+
+  if (!SUPPORTED_VERSIONS.includes(data.version)) {
+    throw new SyncKitError('ARCHIVE_INVALID', `Unsupported manifest version: ${data.version}`);
+  }
+
+  const unknownEncoding = (data.operations as FileOperation[]).find(
+    (op) => op.encoding && !FILE_ENCODINGS.includes(op.encoding)
+  );
+  if (unknownEncoding) {
+    throw new SyncKitError(
+      'ARCHIVE_INVALID',
+      `Unsupported encoding for ${unknownEncoding.path}: ${unknownEncoding.encoding}`
+    );
   }
 
   return data as Manifest;
@@ -106,7 +142,10 @@ export function getManifestSummary(manifest: Manifest): string {
     `================`,
     ``,
     `Created: ${new Date(manifest.created).toLocaleString()}`,
+    ...(manifest.id ? [`ID: ${manifest.id}`] : []),
+    ...(manifest.previous ? [`Follows: ${manifest.previous}`] : []),
     `Mode: ${manifest.mode}`,
+    ...(manifest.profile ? [`Profile: ${manifest.profile}`] : []),
     ``,
     `Source Repository:`,
     `  Name: ${manifest.source.repo}`,
@@ -120,6 +159,25 @@ export function getManifestSummary(manifest: Manifest): string {
     lines.push(`Message: ${manifest.message}`, ``);
   }
 
+  if (manifest.commits?.length) {
+    lines.push(`Commits:`);
+    for (const commit of manifest.commits) {
+      lines.push(`  ${commit.hash.slice(0, 7)} ${commit.message.split('\n')[0]}`);
+    }
+    lines.push(``);
+  }
+
+  if (manifest.bundle) {
+    lines.push(`Git Bundle: ${manifest.bundle.range}`);
+    for (const ref of manifest.bundle.refs) {
+      lines.push(`  ${ref.hash.slice(0, 7)} ${ref.name}`);
+    }
+    for (const commit of manifest.bundle.prerequisites) {
+      lines.push(`  requires ${commit.slice(0, 7)}`);
+    }
+    lines.push(``);
+  }
+
   lines.push(
     `Statistics:`,
     `  Added: ${manifest.stats.added}`,
@@ -139,7 +197,7 @@ export function getManifestSummary(manifest: Manifest): string {
         line = `  + ${op.path}`;
         break;
       case 'modify':
-        line = `  ~ ${op.path}`;
+        line = `  ~ ${op.path}${op.delta ? ' (patch)' : ''}`;
         break;
       case 'delete':
         line = `  - ${op.path}`;
@@ -147,9 +205,15 @@ export function getManifestSummary(manifest: Manifest): string {
       case 'rename':
         line = `  > ${op.from} -> ${op.path}`;
         break;
+      case 'chmod':
+        line = `  * ${op.path} (mode ${op.mode})`;
+        break;
       default:
         line = `  ? ${op.path}`;
     }
+    if (op.encoding === 'base64') {
+      line += ` (${describeBinary(op.size ?? 0)})`;
+    }
     lines.push(line);
   }
 
@@ -0,0 +1,115 @@
+import { diff3Merge } from 'node-diff3';
+import { FileOperation, MergeOutcome } from '../types/index.js';
+import { getFileAtCommit, GitRepo } from './git.js';
+import { getBaseFromArchive, getFileFromArchive, getPatchFromArchive } from './archive.js';
+import { applyDeltaToLocal } from './delta.js';
+import { fileExists, hashBuffer, isBinaryBuffer, readFileBuffer } from '../utils/fs.js';
+import { resolveSafePath } from '../utils/paths.js';
+import { ZipReader } from '../utils/zip.js';
+
+/**
+ * Collect base versions (content at the source commit) of modified files.
+ * Sets `baseHash` on each operation whose base is recorded.
+ */
+export async function collectBaseVersions(
+  repo: GitRepo,
+  operations: FileOperation[],
+  commit: string
+): Promise<Map<string, Buffer>> {
+  const bases = new Map<string, Buffer>();
+
+  for (const op of operations) {
+    // Symlink targets are replaced, never merged
+    if (op.type !== 'modify' || op.mode === '120000') {
+      continue;
+    }
+
+    const content = await getFileAtCommit(repo, op.path, commit);
+
+    // Only text files can be merged
+    if (!content || isBinaryBuffer(content)) {
+      continue;
+    }
+
+    op.baseHash = hashBuffer(content);
+    bases.set(op.path, content);
+  }
+
+  return bases;
+}
+
+/**
+ * Three-way merge of text, marking overlapping changes with conflict markers
+ */
+export function mergeText(
+  base: string,
+  local: string,
+  incoming: string,
+  labels: { local: string; incoming: string } = { local: 'local', incoming: 'incoming' }
+): MergeOutcome {
+  const regions = diff3Merge<string>(local.split('\n'), base.split('\n'), incoming.split('\n'), {
+    excludeFalseConflicts: true,
+  });
+
+  const lines: string[] = [];
+  let conflicts = 0;
+
+  for (const region of regions) {
+    if (region.ok) {
+      lines.push(...region.ok);
+    } else if (region.conflict) {
+      conflicts++;
+      lines.push(
+        `<<<<<<< ${labels.local}`,
+        ...region.conflict.a,
+        '=======',
+        ...region.conflict.b,
+        `>>>>>>> ${labels.incoming}`
+      );
+    }
+  }
+
+  return { content: lines.join('\n'), conflicts };
+}
+
+/**
+ * Merge the local version of a modified file with the incoming one.
+ * Patched files are merged by applying the patch onto the local version.
+ * Returns null when the archive has no base version or content is binary.
+ */
+export async function mergeOperation(
+  zip: ZipReader,
+  op: FileOperation,
+  targetDir: string
+): Promise<MergeOutcome | null> {
+  if (op.type !== 'modify' || !op.baseHash) {
+    return null;
+  }
+
+  const localPath = resolveSafePath(targetDir, op.path);
+
+  if (op.delta) {
+    const patch = await getPatchFromArchive(zip, op.path);
+    if (!patch || !fileExists(localPath)) {
+      return null;
+    }
+
+    const patched = applyDeltaToLocal((await readFileBuffer(localPath)).toString('utf-8'), patch);
+    return patched === null ? null : { content: patched, conflicts: 0 };
+  }
+
+  const base = await getBaseFromArchive(zip, op.path);
+  const incoming = await getFileFromArchive(zip, op.path, op.encoding);
+
+  if (!base || !incoming || !fileExists(localPath)) {
+    return null;
+  }
+
+  const local = await readFileBuffer(localPath);
+
+  if (isBinaryBuffer(local) || isBinaryBuffer(incoming)) {
+    return null;
+  }
+
+  return mergeText(base.toString('utf-8'), local.toString('utf-8'), incoming.toString('utf-8'));
+}
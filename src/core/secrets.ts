@@ -0,0 +1,121 @@
+import picomatch from 'picomatch';
+import { SecretFinding, SecretRule, SecretScanFile, SecretsConfig } from '../types/index.js';
+import { detectEncoding } from '../utils/encoding.js';
+
+/** Marker that allows a finding on its line, e.g. `# sync-kit:allow-secret` */
+export const ALLOW_MARKER = 'sync-kit:allow-secret';
+
+/** Files larger than this are not scanned */
+const MAX_SCAN_SIZE = 2 * 1024 * 1024;
+
+/** Shannon entropy (bits per character) above which an assigned value looks random */
+const ENTROPY_THRESHOLD = 4.0;
+const MIN_ENTROPY_LENGTH = 20;
+
+/**
+ * Built-in detectors for well-known secret formats
+ */
+const BUILTIN_RULES: SecretRule[] = [
+  { name: 'private-key', pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/ },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: 'aws-secret-key', pattern: /aws_?secret_?(?:access_?)?key\W{0,5}[A-Za-z0-9/+]{40}\b/i },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/ },
+  { name: 'gitlab-token', pattern: /\bglpat-[A-Za-z0-9_-]{20,}\b/ },
+  { name: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/ },
+  { name: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: 'stripe-key', pattern: /\b[rs]k_live_[0-9A-Za-z]{24,}\b/ },
+  { name: 'npm-token', pattern: /\bnpm_[A-Za-z0-9]{36}\b/ },
+];
+
+/**
+ * Value assigned to a secret-looking name, e.g. `API_TOKEN = "..."` or `password: ...`
+ */
+const ASSIGNMENT_PATTERN =
+  /(?:secret|token|passw(?:or)?d|pwd|api_?key|access_?key|auth|credential)[\w-]*["']?\s*[:=]\s*["']?([A-Za-z0-9+/=_.~-]{20,})/i;
+
+/**
+ * Scan files for secrets, reading one at a time. Oversized files are skipped
+ * before they are read and binary files after, as are paths matching the
+ * allowlist and lines carrying the allow marker. Findings are ordered by
+ * file and line.
+ */
+export async function scanForSecrets(
+  files: AsyncIterable<SecretScanFile>,
+  config: SecretsConfig = {}
+): Promise<SecretFinding[]> {
+  const rules = [
+    ...BUILTIN_RULES,
+    ...Object.entries(config.patterns ?? {}).map(([name, pattern]) => ({ name, pattern: new RegExp(pattern) })),
+  ];
+  const isAllowed = config.allow?.length ? picomatch(config.allow, { dot: true }) : () => false;
+  const findings: SecretFinding[] = [];
+
+  for await (const { file, size, read } of files) {
+    if (isAllowed(file) || size > MAX_SCAN_SIZE) {
+      continue;
+    }
+
+    const content = await read();
+    if (content.length > MAX_SCAN_SIZE || detectEncoding(content) === 'base64') {
+      continue;
+    }
+
+    const lines = content.toString('utf-8').split('\n');
+    for (const [i, line] of lines.entries()) {
+      if (line.includes(ALLOW_MARKER)) {
+        continue;
+      }
+
+      const finding = scanLine(line, rules);
+      if (finding) {
+        findings.push({ file, line: i + 1, ...finding });
+      }
+    }
+  }
+
+  return findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
+
+/**
+ * Find the first secret on a line, with the match redacted for display
+ */
+function scanLine(line: string, rules: SecretRule[]): Pick<SecretFinding, 'rule' | 'match'> | undefined {
+  for (const rule of rules) {
+    const match = line.match(rule.pattern);
+    if (match) {
+      return { rule: rule.name, match: redact(match[0]) };
+    }
+  }
+
+  const assigned = line.match(ASSIGNMENT_PATTERN)?.[1];
+  if (assigned && assigned.length >= MIN_ENTROPY_LENGTH && getEntropy(assigned) > ENTROPY_THRESHOLD) {
+    return { rule: 'high-entropy', match: redact(assigned) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the Shannon entropy of a string in bits per character
+ */
+function getEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+
+  return entropy;
+}
+
+/**
+ * Keep only the start of a secret so reports do not leak it
+ */
+function redact(value: string): string {
+  return value.length <= 8 ? '*'.repeat(value.length) : `${value.slice(0, 6)}${'*'.repeat(Math.min(value.length - 6, 12))}`;
+}
@@ -0,0 +1,189 @@
+import { createPrivateKey, createPublicKey, KeyObject, sign, verify } from 'node:crypto';
+import { readdir, rename } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { ArchiveSignature, SignatureCheck } from '../types/index.js';
+import { getKeyId } from './encryption.js';
+import { fileExists, hashStream, readFileContent, remove } from '../utils/fs.js';
+import { getUserConfigDir } from '../utils/paths.js';
+import { openZip, writeZip, ZipReader, ZipSource } from '../utils/zip.js';
+import { SyncKitError } from '../utils/errors.js';
+
+const SIGNATURE_VERSION = '1.0';
+const SIGNATURE_ENTRY = 'signature.json';
+
+/** Default Ed25519 key used to sign archives */
+export const DEFAULT_SIGNING_KEY_PATH = join(getUserConfigDir(), 'signing.pem');
+
+/** Default directory of trusted public keys, one PEM file per signer */
+export const DEFAULT_TRUSTED_KEYS_DIR = join(getUserConfigDir(), 'trusted-keys');
+
+/**
+ * Load the Ed25519 signing key: the given file, else SYNC_KIT_SIGNING_KEY,
+ * else the default signing key
+ */
+export async function loadSigningKey(path?: string): Promise<KeyObject> {
+  const resolved = path || process.env.SYNC_KIT_SIGNING_KEY || DEFAULT_SIGNING_KEY_PATH;
+
+  if (!fileExists(resolved)) {
+    throw new SyncKitError('KEY_INVALID', `Signing key not found: ${resolved}`);
+  }
+
+  const key = createPrivateKey(await readFileContent(resolved));
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new SyncKitError('KEY_INVALID', `Not an Ed25519 private key: ${resolved}`);
+  }
+
+  return key;
+}
+
+/**
+ * Sign an archive file in place: the digest of every entry is recorded
+ * with the signer and signed, so any later change to the manifest or
+ * file content invalidates the signature
+ */
+export async function signArchive(
+  archivePath: string,
+  key: KeyObject,
+  compressionLevel: number,
+  signer?: string
+): Promise<void> {
+  const zip = await openZip(archivePath);
+  const signedPath = `${archivePath}.signed`;
+
+  try {
+    const publicKey = createPublicKey(key);
+    const entries = await getEntryDigests(zip);
+    const contents = new Map<string, ZipSource>(
+      zip.getEntries()
+        .filter((entry) => !entry.isDirectory)
+        .map((entry) => [entry.name, () => zip.openStream(entry)])
+    );
+
+    const signature: ArchiveSignature = {
+      version: SIGNATURE_VERSION,
+      algorithm: 'ed25519',
+      signer,
+      keyId: getKeyId(publicKey),
+      publicKey: publicKey.export({ type: 'spki', format: 'der' }).toString('base64'),
+      entries,
+      signature: sign(null, getSignedPayload(signer, entries), key).toString('base64'),
+    };
+
+    // Rewritten next to the archive, as entries are streamed from it
+    contents.set(SIGNATURE_ENTRY, JSON.stringify(signature, null, 2));
+    await writeZip(signedPath, contents, new Set(), compressionLevel);
+  } catch (error) {
+    await remove(signedPath);
+    throw error;
+  } finally {
+    await zip.close();
+  }
+
+  await rename(signedPath, archivePath);
+}
+
+/**
+ * Verify the signature of an archive against its content and the trusted keys
+ */
+export async function verifyArchiveSignature(zip: ZipReader, trustedKeysDir?: string): Promise<SignatureCheck> {
+  const entry = zip.getEntry(SIGNATURE_ENTRY);
+
+  if (!entry) {
+    return { status: 'unsigned' };
+  }
+
+  let signature: ArchiveSignature;
+  let publicKey: KeyObject;
+  try {
+    signature = JSON.parse(await zip.readText(entry)) as ArchiveSignature;
+    publicKey = createPublicKey({ key: Buffer.from(signature.publicKey, 'base64'), format: 'der', type: 'spki' });
+  } catch {
+    return { status: 'invalid', reason: 'signature is unreadable' };
+  }
+
+  const check: SignatureCheck = { status: 'invalid', signer: signature.signer, keyId: getKeyId(publicKey) };
+
+  if (signature.version !== SIGNATURE_VERSION || publicKey.asymmetricKeyType !== 'ed25519') {
+    return { ...check, reason: `unsupported signature (${signature.algorithm} ${signature.version})` };
+  }
+
+  const payload = getSignedPayload(signature.signer, signature.entries);
+  if (!verify(null, payload, publicKey, Buffer.from(signature.signature, 'base64'))) {
+    return { ...check, reason: 'signature does not match' };
+  }
+
+  let digests: Record<string, string>;
+  try {
+    digests = await getEntryDigests(zip);
+  } catch {
+    return { ...check, reason: 'archive content is unreadable' };
+  }
+
+  const names = new Set([...Object.keys(digests), ...Object.keys(signature.entries)]);
+  for (const name of names) {
+    if (digests[name] !== signature.entries[name]) {
+      return { ...check, reason: `${name} was changed after signing` };
+    }
+  }
+
+  const trusted = await loadTrustedKeys(trustedKeysDir);
+  const trustedAs = trusted.get(signature.publicKey);
+
+  return trustedAs ? { ...check, status: 'valid', trustedAs } : { ...check, status: 'untrusted' };
+}
+
+/**
+ * Load trusted Ed25519 public keys by their SPKI encoding; each key is
+ * named after its file (alice.pem -> alice)
+ */
+async function loadTrustedKeys(dir?: string): Promise<Map<string, string>> {
+  const keysDir = dir || process.env.SYNC_KIT_TRUSTED_KEYS || DEFAULT_TRUSTED_KEYS_DIR;
+  const trusted = new Map<string, string>();
+
+  if (!fileExists(keysDir)) {
+    if (keysDir !== DEFAULT_TRUSTED_KEYS_DIR) {
+      throw new SyncKitError('KEY_INVALID', `Trusted keys directory not found: ${keysDir}`);
+    }
+    return trusted;
+  }
+
+  for (const file of await readdir(keysDir)) {
+    if (extname(file) !== '.pem') {
+      continue;
+    }
+
+    const key = createPublicKey(await readFileContent(join(keysDir, file)));
+    if (key.asymmetricKeyType !== 'ed25519') {
+      throw new SyncKitError('KEY_INVALID', `Not an Ed25519 public key: ${join(keysDir, file)}`);
+    }
+
+    trusted.set(key.export({ type: 'spki', format: 'der' }).toString('base64'), basename(file, '.pem'));
+  }
+
+  return trusted;
+}
+
+/**
+ * Get the digest of every entry except the signature itself, by name
+ */
+async function getEntryDigests(zip: ZipReader): Promise<Record<string, string>> {
+  const digests: Record<string, string> = {};
+
+  const entries = zip
+    .getEntries()
+    .filter((entry) => !entry.isDirectory && entry.name !== SIGNATURE_ENTRY)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    digests[entry.name] = (await hashStream(await zip.openStream(entry))).hash;
+  }
+
+  return digests;
+}
+
+/**
+ * Get the bytes covered by the signature
+ */
+function getSignedPayload(signer: string | undefined, entries: Record<string, string>): Buffer {
+  return Buffer.from(JSON.stringify({ version: SIGNATURE_VERSION, signer: signer ?? null, entries }));
+}
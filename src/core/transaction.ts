@@ -0,0 +1,213 @@
+import { dirname, join } from 'node:path';
+import { rename } from 'node:fs/promises';
+import { Readable, Transform } from 'node:stream';
+import { FileOperation, TransactionResult } from '../types/index.js';
+import { openEntryStream } from './archive.js';
+import { readOperationContent } from './delta.js';
+import { sortOperationsForApply } from './diff.js';
+import { restoreBackup } from './backup.js';
+import {
+  fileExists,
+  ensureParentDir,
+  remove,
+  setFileMode,
+  writeFileWithMode,
+  writeStreamWithMode,
+} from '../utils/fs.js';
+import { generateTimestamp, getArchiveFilePath, resolveSafePath, resolveSafeLinkTarget } from '../utils/paths.js';
+import { ZipReader } from '../utils/zip.js';
+import { SyncKitError } from '../utils/errors.js';
+
+/**
+ * Apply operations as a single all-or-nothing transaction.
+ *
+ * Every write is staged next to the backup first, then moved into place. File content is
+ * streamed from the archive to the staging area; `onData` is called with the
+ * number of bytes staged. Entries in `contents` replace the archive content
+ * of an operation (e.g. merge results). If any step of the commit fails,
+ * the working tree is restored from the backup, which also removes files
+ * newly created by the import. If restoring fails too, both errors are
+ * reported along with the backup path for manual recovery.
+ */
+export async function applyTransaction(
+  zip: ZipReader,
+  operations: FileOperation[],
+  targetDir: string,
+  backupPath: string,
+  contents: Map<string, Buffer> = new Map(),
+  onProgress?: (current: number, total: number, operation: FileOperation) => void,
+  onData?: (bytes: number, operation: FileOperation) => void
+): Promise<TransactionResult> {
+  const sortedOps = sortOperationsForApply(operations);
+  const stagingDir = join(dirname(backupPath), `staging_${generateTimestamp()}`);
+
+  const applied: FileOperation[] = [];
+  let currentOp: FileOperation | undefined;
+  let committing = false;
+
+  try {
+    // Phase 1: stage all new content without touching the working tree
+    for (const op of sortedOps) {
+      currentOp = op;
+      await stageOperation(zip, op, targetDir, stagingDir, contents.get(op.path), onData);
+    }
+
+    // Phase 2: move staged content into place
+    committing = true;
+    for (const op of sortedOps) {
+      currentOp = op;
+      await commitOperation(op, targetDir, stagingDir);
+      applied.push(op);
+      onProgress?.(applied.length, sortedOps.length, op);
+    }
+
+    return { committed: true, applied };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (committing) {
+      try {
+        await restoreBackup(backupPath, targetDir);
+      } catch (restoreError) {
+        // The working tree is left partly applied; keep both errors
+        const reason = restoreError instanceof Error ? restoreError.message : String(restoreError);
+        return {
+          committed: false,
+          applied: [],
+          failedOperation: currentOp,
+          error: `${message}; restoring the backup failed (${reason}), ` +
+            `the working tree may be partly updated: restore it manually from ${backupPath}`,
+          restoreError: reason,
+        };
+      }
+    }
+
+    return {
+      committed: false,
+      applied: [],
+      failedOperation: currentOp,
+      error: message,
+    };
+  } finally {
+    await remove(stagingDir);
+  }
+}
+
+/**
+ * Write the new content of an operation into the staging area. Patched,
+ * merged and symlink content is built in memory, the rest is streamed.
+ */
+async function stageOperation(
+  zip: ZipReader,
+  op: FileOperation,
+  targetDir: string,
+  stagingDir: string,
+  replacement?: Buffer,
+  onData?: (bytes: number, operation: FileOperation) => void
+): Promise<void> {
+  if (op.type === 'delete' || op.type === 'chmod') {
+    return;
+  }
+
+  const buffered = replacement !== undefined || op.delta || op.mode === '120000';
+  const content = buffered
+    ? replacement ?? (await readOperationContent(zip, op, targetDir))
+    : await openEntryStream(zip, getArchiveFilePath(op.path), op.encoding);
+
+  if (!content) {
+    // Renames may carry no content and are applied as a plain move
+    if (op.type === 'rename') {
+      return;
+    }
+    throw new SyncKitError('ARCHIVE_CORRUPTED', `File not found in archive: ${op.path}`);
+  }
+
+  const stagedPath = resolveSafePath(stagingDir, op.path);
+  await ensureParentDir(stagedPath);
+
+  if (Buffer.isBuffer(content)) {
+    // Symlinks must not point outside the target
+    if (op.mode === '120000') {
+      resolveSafeLinkTarget(targetDir, op.path, content.toString('utf-8'));
+    }
+
+    await writeFileWithMode(stagedPath, content, op.mode);
+    onData?.(content.length, op);
+    return;
+  }
+
+  await writeStreamWithMode(stagedPath, countBytes(content, (bytes) => onData?.(bytes, op)), op.mode);
+}
+
+/**
+ * Pass a stream through, reporting the size of each chunk
+ */
+function countBytes(stream: Readable, onData: (bytes: number) => void): Readable {
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      onData(chunk.length);
+      callback(null, chunk);
+    },
+  });
+  stream.on('error', (error) => counter.destroy(error));
+
+  return stream.pipe(counter);
+}
+
+/**
+ * Apply a single staged operation to the working tree
+ */
+async function commitOperation(
+  op: FileOperation,
+  targetDir: string,
+  stagingDir: string
+): Promise<void> {
+  const targetPath = resolveSafePath(targetDir, op.path);
+  const stagedPath = resolveSafePath(stagingDir, op.path);
+
+  switch (op.type) {
+    case 'add':
+    case 'modify': {
+      await ensureParentDir(targetPath);
+      await rename(stagedPath, targetPath);
+      break;
+    }
+
+    case 'chmod': {
+      // Nothing to change if the file was deleted locally
+      if (op.mode && fileExists(targetPath)) {
+        await setFileMode(targetPath, op.mode);
+      }
+      break;
+    }
+
+    case 'delete': {
+      if (fileExists(targetPath)) {
+        await remove(targetPath);
+      }
+      break;
+    }
+
+    case 'rename': {
+      if (!op.from) {
+        break;
+      }
+
+      const fromPath = resolveSafePath(targetDir, op.from);
+
+      if (fileExists(stagedPath)) {
+        // Archive has the new content - drop the old file and move it in
+        if (fileExists(fromPath)) {
+          await remove(fromPath);
+        }
+        await ensureParentDir(targetPath);
+        await rename(stagedPath, targetPath);
+      } else if (fileExists(fromPath)) {
+        // Just rename if no content in archive
+        await ensureParentDir(targetPath);
+        await rename(fromPath, targetPath);
+      }
+      break;
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import { ArchiveLimitOptions, ArchiveLimits, Config, FileOperation, Manifest, RejectedOperation } from '../types/index.js';
+import { posix } from 'node:path';
+import { parseSize } from './volumes.js';
+import { getHashCacheFile } from './hashes.js';
+import { getLastImportPath } from './history.js';
+import { isSymlink } from '../utils/fs.js';
+import { resolveSafePath } from '../utils/paths.js';
+import { ZipReader } from '../utils/zip.js';
+import { SyncKitError } from '../utils/errors.js';
+
+/**
+ * Built-in archive limits, used for anything the config and options leave unset
+ */
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxEntries: 50_000,
+  maxEntrySize: 512 * 1024 * 1024,
+  maxTotalSize: 2 * 1024 * 1024 * 1024,
+  maxCompressionRatio: 200,
+};
+
+/** Entries below this size are not checked for their compression ratio */
+const RATIO_CHECK_MIN_SIZE = 1024 * 1024;
+
+/**
+ * Directories an archive must never write into, at any depth. Matches
+ * trailing dots and spaces and 8.3 short names, which some file systems map
+ * to the same name.
+ */
+const PROTECTED_SEGMENTS = [/^\.git[. ]*$/i, /^git~\d+$/i];
+
+/**
+ * Get the archive limits of the config, with sizes given as options
+ * replacing those of the config
+ */
+export function getArchiveLimits(config: Config, options: ArchiveLimitOptions = {}): ArchiveLimits {
+  const { maxEntries, maxCompressionRatio } = config.archiveLimits;
+  const maxEntrySize = options.maxEntrySize ?? config.archiveLimits.maxEntrySize;
+  const maxTotalSize = options.maxTotalSize ?? config.archiveLimits.maxTotalSize;
+
+  return {
+    maxEntries: maxEntries ?? DEFAULT_ARCHIVE_LIMITS.maxEntries,
+    maxEntrySize: maxEntrySize ? parseSize(maxEntrySize) : DEFAULT_ARCHIVE_LIMITS.maxEntrySize,
+    maxTotalSize: maxTotalSize ? parseSize(maxTotalSize) : DEFAULT_ARCHIVE_LIMITS.maxTotalSize,
+    maxCompressionRatio: maxCompressionRatio ?? DEFAULT_ARCHIVE_LIMITS.maxCompressionRatio,
+  };
+}
+
+/**
+ * Check zip entry count and uncompressed sizes against the limits, using
+ * entry headers only, so zip bombs are refused before being decompressed
+ */
+export function checkArchiveLimits(zip: ZipReader, limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS): void {
+  const entries = zip.getEntries();
+
+  if (entries.length > limits.maxEntries) {
+    throw new SyncKitError(
+      'ARCHIVE_LIMIT_EXCEEDED',
+      `Archive has ${entries.length} entries, more than the limit of ${limits.maxEntries}`
+    );
+  }
+
+  const names = new Set<string>();
+  let totalSize = 0;
+
+  for (const entry of entries) {
+    const { size, compressedSize } = entry;
+
+    if (names.has(entry.name)) {
+      throw new SyncKitError('UNSAFE_ARCHIVE', `Archive contains entry ${entry.name} more than once`);
+    }
+    names.add(entry.name);
+
+    if (size > limits.maxEntrySize) {
+      throw new SyncKitError(
+        'ARCHIVE_LIMIT_EXCEEDED',
+        `Entry ${entry.name} expands to ${size} bytes, more than the limit of ${limits.maxEntrySize}`
+      );
+    }
+
+    if (size > RATIO_CHECK_MIN_SIZE && size / Math.max(compressedSize, 1) > limits.maxCompressionRatio) {
+      throw new SyncKitError(
+        'ARCHIVE_LIMIT_EXCEEDED',
+        `Entry ${entry.name} is compressed suspiciously well (possible zip bomb)`
+      );
+    }
+
+    totalSize += size;
+  }
+
+  if (totalSize > limits.maxTotalSize) {
+    throw new SyncKitError(
+      'ARCHIVE_LIMIT_EXCEEDED',
+      `Archive expands to ${totalSize} bytes, more than the limit of ${limits.maxTotalSize}`
+    );
+  }
+}
+
+/**
+ * Validate every path the manifest would write, delete or rename, including
+ * those of packed commits. When `targetDir` is given, paths that would be
+ * written through a symlinked directory in the target are rejected as well.
+ */
+export function validateManifest(manifest: Manifest, config: Config, targetDir?: string): RejectedOperation[] {
+  const rejected = new Map<string, RejectedOperation>();
+  const operationLists = [manifest.operations, ...(manifest.commits ?? []).map((commit) => commit.operations)];
+
+  for (const operations of operationLists) {
+    for (const rejection of validateOperations(operations, config, targetDir)) {
+      rejected.set(`${rejection.path}\0${rejection.reason}`, rejection);
+    }
+  }
+
+  return [...rejected.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Validate the paths of one set of operations applied together: traversal,
+ * absolute paths, protected directories, symlinked parents, duplicates and
+ * paths that collide on case-insensitive file systems
+ */
+export function validateOperations(
+  operations: FileOperation[],
+  config: Config,
+  targetDir?: string
+): RejectedOperation[] {
+  const rejected: RejectedOperation[] = [];
+  const protectedPaths = getProtectedPaths(config);
+  const seen = new Set<string>();
+  const folded = new Map<string, string>();
+  const links = operations.filter((op) => op.mode === '120000' && op.type !== 'delete').map((op) => op.path);
+
+  for (const op of operations) {
+    for (const path of op.from ? [op.path, op.from] : [op.path]) {
+      const reason = checkPath(path, protectedPaths) ?? (targetDir ? checkParents(targetDir, path) : undefined);
+      if (reason) {
+        rejected.push({ path, reason });
+      }
+    }
+
+    // Writing below a symlink the archive itself creates escapes just the same
+    const link = links.find((linkPath) => op.path.startsWith(`${linkPath}/`));
+    if (link && op.type !== 'delete') {
+      rejected.push({ path: op.path, reason: `parent ${link} is a symlink created by the archive` });
+    }
+
+    if (seen.has(op.path)) {
+      rejected.push({ path: op.path, reason: 'listed more than once' });
+    }
+    seen.add(op.path);
+
+    if (op.type !== 'delete') {
+      const key = op.path.toLowerCase();
+      const other = folded.get(key);
+      if (other && other !== op.path) {
+        rejected.push({ path: op.path, reason: `collides with ${other} on case-insensitive file systems` });
+      }
+      folded.set(key, other ?? op.path);
+    }
+  }
+
+  return rejected;
+}
+
+/**
+ * Get the paths sync-kit keeps its own state in, relative to the target, as
+ * lists of normalized segments: the backup directory, the history file and
+ * the files kept next to it
+ */
+function getProtectedPaths(config: Config): string[][] {
+  const paths = [
+    config.backupDir,
+    config.historyFile,
+    getHashCacheFile(config),
+    getLastImportPath('', config),
+  ];
+
+  return paths.map((path) =>
+    path
+      .split(/[\\/]/)
+      .filter((segment) => segment && segment !== '.')
+      .map(normalizeSegment)
+  );
+}
+
+/**
+ * Fold a path segment to the name file systems may treat it as: without
+ * trailing dots and spaces, in lower case
+ */
+function normalizeSegment(segment: string): string {
+  return segment.replace(/[. ]+$/, '').toLowerCase();
+}
+
+/**
+ * Check a single archive path, returning why it is unsafe
+ */
+function checkPath(path: string, protectedPaths: string[][]): string | undefined {
+  if (!path || path.includes('\0')) {
+    return 'empty or contains NUL';
+  }
+
+  if (path.startsWith('/') || path.startsWith('\\') || /^[a-zA-Z]:/.test(path)) {
+    return 'absolute path';
+  }
+
+  // Backslashes separate directories on Windows
+  const segments = path.split(/[\\/]/);
+
+  if (segments.includes('..')) {
+    return 'path traversal';
+  }
+
+  const protectedSegment = segments.find((segment) => PROTECTED_SEGMENTS.some((pattern) => pattern.test(segment)));
+  if (protectedSegment) {
+    return `writes into protected directory ${protectedSegment}`;
+  }
+
+  const normalized = segments.map(normalizeSegment);
+  const protectedPath = protectedPaths.find(
+    (prefix) => prefix.length > 0 && prefix.every((segment, i) => normalized[i] === segment)
+  );
+  if (protectedPath) {
+    return `writes into protected path ${segments.slice(0, protectedPath.length).join('/')}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Check that no existing parent directory of a path is a symlink
+ */
+function checkParents(targetDir: string, path: string): string | undefined {
+  const segments = path.split('/').slice(0, -1);
+
+  for (let i = 1; i <= segments.length; i++) {
+    const parent = segments.slice(0, i).join('/');
+    if (isSymlink(resolveSafePath(targetDir, parent))) {
+      return `parent directory ${parent} is a symlink`;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,226 @@
+import { FileEncoding, FileOperation, IntegrityIssue, IntegrityReport, Manifest } from '../types/index.js';
+import { openEntryStream } from './archive.js';
+import { BUNDLE_ENTRY } from './bundle.js';
+import { getContentOperations } from './import.js';
+import { fileExists, getFileMode, hashFile, hashStream } from '../utils/fs.js';
+import { ZipReader } from '../utils/zip.js';
+import {
+  fromArchivePath,
+  getArchiveBasePath,
+  getArchiveCommitFilePath,
+  getArchiveFilePath,
+  getArchivePatchPath,
+  getFilesDir,
+  resolveSafePath,
+} from '../utils/paths.js';
+
+/**
+ * Check archive content against the manifest before anything is applied:
+ * every file entry is streamed, decoded and re-hashed, sizes are compared,
+ * and missing entries or unexpected ones under files/ are reported. Base
+ * versions and packed commit files, which merges and replays read, are
+ * checked against their recorded hashes too.
+ * `onData` is called with the number of decoded bytes as they are hashed.
+ */
+export async function verifyArchiveContent(
+  zip: ZipReader,
+  manifest: Manifest,
+  onProgress?: (current: number, total: number, operation: FileOperation) => void,
+  onData?: (bytes: number, operation: FileOperation) => void
+): Promise<IntegrityReport> {
+  const issues: IntegrityIssue[] = [];
+  const expected = new Set<string>();
+  let checked = 0;
+
+  // Bundles carry their content in the bundle itself
+  if (manifest.bundle) {
+    if (!zip.getEntry(BUNDLE_ENTRY)) {
+      issues.push({ path: BUNDLE_ENTRY, problem: 'missing' });
+    }
+    return { checked, issues };
+  }
+
+  const operations = getContentOperations(manifest.operations);
+
+  for (const op of operations) {
+    if (!op.delta) {
+      expected.add(getArchiveFilePath(op.path));
+    }
+
+    issues.push(...(await verifyEntry(zip, op, (bytes) => onData?.(bytes, op))));
+    checked++;
+    onProgress?.(checked, operations.length, op);
+  }
+
+  issues.push(...(await verifySourceEntries(zip, manifest)));
+
+  const filesPrefix = `${getFilesDir()}/`;
+  for (const entry of zip.getEntries()) {
+    if (!entry.isDirectory && entry.name.startsWith(filesPrefix) && !expected.has(entry.name)) {
+      issues.push({
+        path: fromArchivePath(entry.name.slice(filesPrefix.length)),
+        problem: 'extra',
+        actual: entry.name,
+      });
+    }
+  }
+
+  return { checked, issues };
+}
+
+/**
+ * Check the working tree after applying: written files are hashed again and
+ * compared with the manifest, deleted files must be gone and modes must
+ * match. Paths in `exclude` (e.g. merge results) are not checked.
+ */
+export async function verifyWorkingTree(
+  operations: FileOperation[],
+  targetDir: string,
+  exclude: Set<string> = new Set()
+): Promise<IntegrityReport> {
+  const issues: IntegrityIssue[] = [];
+  let checked = 0;
+
+  for (const op of operations) {
+    if (exclude.has(op.path)) {
+      continue;
+    }
+    checked++;
+
+    const targetPath = resolveSafePath(targetDir, op.path);
+    const exists = fileExists(targetPath);
+
+    if (op.type === 'delete') {
+      if (exists) {
+        issues.push({ path: op.path, problem: 'not_deleted' });
+      }
+      continue;
+    }
+
+    if (!exists) {
+      // Mode changes of locally deleted files are skipped on purpose
+      if (op.type !== 'chmod') {
+        issues.push({ path: op.path, problem: 'missing' });
+      }
+      continue;
+    }
+
+    if (op.type !== 'chmod' && op.hash) {
+      const hash = await hashFile(targetPath);
+      if (hash !== op.hash) {
+        issues.push({ path: op.path, problem: 'hash_mismatch', expected: op.hash, actual: hash });
+        continue;
+      }
+    }
+
+    const mode = await getFileMode(targetPath);
+    if (op.mode && mode && mode !== op.mode) {
+      issues.push({ path: op.path, problem: 'mode_mismatch', expected: op.mode, actual: mode });
+    }
+  }
+
+  return { checked, issues };
+}
+
+/**
+ * Check the archive entry of a single operation
+ */
+async function verifyEntry(
+  zip: ZipReader,
+  op: FileOperation,
+  onData: (bytes: number) => void
+): Promise<IntegrityIssue[]> {
+  // Patched files are checked against their hash once applied
+  if (op.delta) {
+    const patchName = getArchivePatchPath(op.path);
+    return zip.getEntry(patchName) ? [] : [{ path: op.path, problem: 'missing', expected: patchName }];
+  }
+
+  const entryName = getArchiveFilePath(op.path);
+  let content: { hash: string; size: number } | null;
+
+  try {
+    const stream = await openEntryStream(zip, entryName, op.encoding);
+    content = stream && (await hashStream(stream, onData));
+  } catch {
+    return [{ path: op.path, problem: 'unreadable', actual: entryName }];
+  }
+
+  if (!content) {
+    // Renames from older archives may carry no content
+    return op.type !== 'rename' || op.hash ? [{ path: op.path, problem: 'missing', expected: entryName }] : [];
+  }
+
+  return compareContent(op, content);
+}
+
+/**
+ * Check the entries merges and replays read: base versions against the hash
+ * recorded as the base of their operation, packed commit files against the
+ * hash of their operation. Issues name the archive entry.
+ */
+async function verifySourceEntries(zip: ZipReader, manifest: Manifest): Promise<IntegrityIssue[]> {
+  const issues: IntegrityIssue[] = [];
+
+  // Bases are optional: without one the file is not merged
+  for (const op of manifest.operations) {
+    const entryName = getArchiveBasePath(op.path);
+    if (op.baseHash && zip.getEntry(entryName)) {
+      issues.push(...(await verifyStoredEntry(zip, entryName, op.baseHash)));
+    }
+  }
+
+  for (const commit of manifest.commits ?? []) {
+    for (const op of getContentOperations(commit.operations)) {
+      if (op.hash) {
+        const entryName = getArchiveCommitFilePath(commit.hash, op.path);
+        issues.push(...(await verifyStoredEntry(zip, entryName, op.hash, op.encoding)));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check that an entry exists and its decoded content has the given hash
+ */
+async function verifyStoredEntry(
+  zip: ZipReader,
+  entryName: string,
+  hash: string,
+  encoding?: FileEncoding
+): Promise<IntegrityIssue[]> {
+  let content: { hash: string; size: number } | null;
+
+  try {
+    const stream = await openEntryStream(zip, entryName, encoding);
+    content = stream && (await hashStream(stream));
+  } catch {
+    return [{ path: entryName, problem: 'unreadable' }];
+  }
+
+  if (!content) {
+    return [{ path: entryName, problem: 'missing' }];
+  }
+
+  if (content.hash !== hash) {
+    return [{ path: entryName, problem: 'hash_mismatch', expected: hash, actual: content.hash }];
+  }
+  return [];
+}
+
+/**
+ * Compare the size and hash of decoded archive content with its operation
+ */
+function compareContent(op: FileOperation, content: { hash: string; size: number }): IntegrityIssue[] {
+  if (op.size !== undefined && content.size !== op.size) {
+    return [{ path: op.path, problem: 'size_mismatch', expected: `${op.size} bytes`, actual: `${content.size} bytes` }];
+  }
+
+  if (op.hash && content.hash !== op.hash) {
+    return [{ path: op.path, problem: 'hash_mismatch', expected: op.hash, actual: content.hash }];
+  }
+
+  return [];
+}
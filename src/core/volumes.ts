@@ -0,0 +1,297 @@
+import { createHash, Hash, randomUUID } from 'node:crypto';
+import { open, FileHandle } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { Manifest, VolumeIndex } from '../types/index.js';
+import { fileExists, hashBuffer, readFileBuffer } from '../utils/fs.js';
+import { openZip, writeZip, ZipReader } from '../utils/zip.js';
+import { SyncKitError } from '../utils/errors.js';
+
+const VOLUME_FORMAT_VERSION = '1.0';
+
+/** Master index, stored in every volume */
+const INDEX_ENTRY = 'index.json';
+/** Fragment describing the volume itself */
+const FRAGMENT_ENTRY = 'volume.json';
+/** Slice of the original archive */
+const DATA_ENTRY = 'volume.bin';
+
+/** Smallest accepted volume size */
+const MIN_VOLUME_SIZE = 64 * 1024;
+/** Room left in each volume for zip headers and the fragment */
+const VOLUME_HEADER_RESERVE = 4 * 1024;
+/** Room left in each volume per index entry */
+const INDEX_ENTRY_RESERVE = 256;
+
+const SIZE_UNITS: Record<string, number> = {
+  '': 1,
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Volume fragment: which slice of the archive a volume carries
+ */
+interface VolumeFragment {
+  id: string;
+  part: number;
+  parts: number;
+  offset: number;
+  size: number;
+  hash: string;
+}
+
+/**
+ * Parse a human-readable size such as 500KB, 20MB or 1.5G
+ */
+export function parseSize(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([kmg]?b?)$/);
+
+  if (!match) {
+    throw new SyncKitError('USAGE', `Invalid size: ${value} (expected e.g. 500KB, 20MB)`);
+  }
+
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[match[2]]);
+}
+
+/**
+ * Check that a volume size leaves room for archive data
+ */
+export function validateVolumeSize(volumeSize: number): void {
+  if (volumeSize < MIN_VOLUME_SIZE) {
+    throw new SyncKitError('USAGE', `Volume size must be at least ${MIN_VOLUME_SIZE / 1024} KB`);
+  }
+}
+
+/**
+ * Get volume path for an archive, e.g. sync_x.zip -> sync_x_part1of4.zip
+ */
+export function getVolumePath(archivePath: string, part: number, parts: number): string {
+  return `${archivePath.replace(/\.zip$/i, '')}_part${part}of${parts}.zip`;
+}
+
+/**
+ * Split an archive into numbered volumes of at most `volumeSize` bytes.
+ * Each volume carries a slice of the archive, its fragment and the master
+ * index with per-volume checksums. Returns volume paths in order.
+ */
+export async function splitArchive(
+  archivePath: string,
+  volumeSize: number,
+  manifest: Pick<Manifest, 'created' | 'message'>
+): Promise<string[]> {
+  validateVolumeSize(volumeSize);
+
+  const content = await readFileBuffer(archivePath);
+  const chunkSize = getChunkSize(content.length, volumeSize, manifest.message);
+  const chunks: Buffer[] = [];
+
+  for (let offset = 0; offset < content.length; offset += chunkSize) {
+    chunks.push(content.subarray(offset, offset + chunkSize));
+  }
+
+  const paths = chunks.map((_, i) => getVolumePath(archivePath, i + 1, chunks.length));
+  const index: VolumeIndex = {
+    version: VOLUME_FORMAT_VERSION,
+    id: randomUUID(),
+    archive: basename(archivePath),
+    size: content.length,
+    hash: hashBuffer(content),
+    created: manifest.created,
+    message: manifest.message,
+    volumes: chunks.map((chunk, i) => ({
+      part: i + 1,
+      file: basename(paths[i]),
+      size: chunk.length,
+      hash: hashBuffer(chunk),
+    })),
+  };
+
+  for (const [i, chunk] of chunks.entries()) {
+    const fragment: VolumeFragment = {
+      id: index.id,
+      part: i + 1,
+      parts: chunks.length,
+      offset: i * chunkSize,
+      size: chunk.length,
+      hash: index.volumes[i].hash,
+    };
+    const entries = new Map<string, Buffer | string>([
+      [FRAGMENT_ENTRY, JSON.stringify(fragment, null, 2)],
+      [INDEX_ENTRY, JSON.stringify(index, null, 2)],
+      [DATA_ENTRY, chunk],
+    ]);
+    // Zip content is already compressed
+    await writeZip(paths[i], entries, new Set([DATA_ENTRY]));
+  }
+
+  return paths;
+}
+
+/**
+ * Check if a zip is a volume of a split archive
+ */
+export function isVolume(zip: ZipReader): boolean {
+  return zip.getEntry(FRAGMENT_ENTRY) !== null;
+}
+
+/**
+ * Read the master index from a volume
+ */
+export async function getVolumeIndex(zip: ZipReader): Promise<VolumeIndex> {
+  const entry = zip.getEntry(INDEX_ENTRY);
+
+  if (!entry) {
+    throw new SyncKitError('ARCHIVE_INVALID', 'Volume does not contain index.json');
+  }
+
+  return JSON.parse(await zip.readText(entry)) as VolumeIndex;
+}
+
+/**
+ * Rebuild the original archive from one of its volumes into `outputPath`.
+ * Sibling volumes are looked up next to it by their indexed names; every
+ * missing or damaged part is reported so only those need to be re-sent.
+ */
+export async function joinVolumes(volumePath: string, zip: ZipReader, outputPath: string): Promise<void> {
+  const index = await getVolumeIndex(zip);
+  const given = await readFragment(zip);
+  const parts = index.volumes.length;
+  const problems: string[] = [];
+  const joined = createHash('sha256');
+  const output = await open(outputPath, 'w');
+
+  try {
+    for (const volume of index.volumes) {
+      // The given volume may have been renamed
+      const path = volume.part === given.part ? volumePath : join(dirname(volumePath), volume.file);
+      const label = `part ${volume.part} of ${parts} (${volume.file})`;
+
+      if (!fileExists(path)) {
+        problems.push(`${label}: missing`);
+        continue;
+      }
+
+      let sibling: ZipReader | undefined;
+
+      try {
+        sibling = volume.part === given.part ? undefined : await openVolume(path);
+        const chunk = await copyVolumeData(sibling ?? zip, index.id, volume.part, output, joined);
+        if (chunk.size !== volume.size || chunk.hash !== volume.hash) {
+          problems.push(`${label}: damaged (checksum mismatch)`);
+        }
+      } catch (error) {
+        problems.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+        await sibling?.close();
+      }
+    }
+  } finally {
+    await output.close();
+  }
+
+  if (problems.length > 0) {
+    throw new SyncKitError(
+      'ARCHIVE_INCOMPLETE',
+      `Split archive ${index.archive} is incomplete, re-send:\n    ${problems.join('\n    ')}`
+    );
+  }
+
+  if (`sha256:${joined.digest('hex')}` !== index.hash) {
+    throw new SyncKitError(
+      'ARCHIVE_CORRUPTED',
+      `Split archive ${index.archive} is corrupted: checksum mismatch after joining`
+    );
+  }
+}
+
+/**
+ * Get the slice size so that a volume with its index fits the volume size
+ */
+function getChunkSize(totalSize: number, volumeSize: number, message?: string): number {
+  const estimatedParts = Math.ceil(totalSize / (volumeSize - VOLUME_HEADER_RESERVE));
+  const reserve =
+    VOLUME_HEADER_RESERVE + estimatedParts * INDEX_ENTRY_RESERVE + Buffer.byteLength(message ?? '');
+  const chunkSize = volumeSize - reserve;
+
+  if (chunkSize < volumeSize / 2) {
+    throw new SyncKitError(
+      'USAGE',
+      `Volume size is too small for ${estimatedParts} volumes, use a larger --split size`
+    );
+  }
+
+  return chunkSize;
+}
+
+/**
+ * Open a sibling volume
+ */
+async function openVolume(path: string): Promise<ZipReader> {
+  try {
+    return await openZip(path);
+  } catch {
+    throw new Error('damaged (not a readable zip)');
+  }
+}
+
+/**
+ * Read the fragment of a volume
+ */
+async function readFragment(zip: ZipReader): Promise<VolumeFragment> {
+  const entry = zip.getEntry(FRAGMENT_ENTRY);
+
+  if (!entry) {
+    throw new Error('not a sync-kit volume');
+  }
+
+  return JSON.parse(await zip.readText(entry)) as VolumeFragment;
+}
+
+/**
+ * Append the archive slice of a volume to `output`, checking it belongs to
+ * the expected set and part. Returns the size and hash of the slice.
+ */
+async function copyVolumeData(
+  zip: ZipReader,
+  id: string,
+  part: number,
+  output: FileHandle,
+  joined: Hash
+): Promise<{ size: number; hash: string }> {
+  const fragment = await readFragment(zip);
+
+  if (fragment.id !== id) {
+    throw new Error('belongs to a different archive');
+  }
+  if (fragment.part !== part) {
+    throw new Error(`contains part ${fragment.part} instead`);
+  }
+
+  const entry = zip.getEntry(DATA_ENTRY);
+
+  if (!entry) {
+    throw new Error('volume data is missing');
+  }
+
+  const hash = createHash('sha256');
+  let size = 0;
+
+  try {
+    for await (const chunk of await zip.openStream(entry)) {
+      hash.update(chunk);
+      joined.update(chunk);
+      size += chunk.length;
+      await output.write(chunk);
+    }
+  } catch {
+    // Stored entries are verified by CRC while reading
+    throw new Error('damaged (checksum mismatch)');
+  }
+
+  return { size, hash: `sha256:${hash.digest('hex')}` };
+}
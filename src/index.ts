@@ -1,17 +1,30 @@
-import { createProgram } from './cli.js';
-
 /**
- * Main entry point
+ * Library entry point: export and import archives without the CLI.
+ * The CLI itself starts from bin.ts.
  */
-async function main(): Promise<void> {
-  const program = createProgram();
-
-  try {
-    await program.parseAsync(process.argv);
-  } catch (error) {
-    console.error('Error:', error instanceof Error ? error.message : error);
-    process.exit(1);
-  }
-}
-
-main();
+export { exportChanges, explainPaths } from './api/export.js';
+export { importArchive } from './api/import.js';
+export { readManifest } from './api/manifest.js';
+export { SyncKitError, EXIT_CODES, getErrorCode } from './utils/errors.js';
+export type {
+  ErrorCode,
+  ExportChangesOptions,
+  ExportHooks,
+  ExportResult,
+  FoundChanges,
+  PathExplanation,
+  ImportArchiveOptions,
+  ImportHooks,
+  ImportPlan,
+  ImportResult,
+  FetchedRef,
+  MergedOperation,
+  ReadManifestOptions,
+  Manifest,
+  FileOperation,
+  Conflict,
+  ConflictPolicy,
+  ProgressEvent,
+  ProgressPhase,
+  ProgressCallback,
+} from './types/index.js';
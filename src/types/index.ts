@@ -1,7 +1,17 @@
 /**
  * Operation types for file changes
  */
-export type OperationType = 'add' | 'modify' | 'delete' | 'rename';
+export type OperationType = 'add' | 'modify' | 'delete' | 'rename' | 'chmod';
+
+/**
+ * Git file mode: regular file, executable file or symlink
+ */
+export type FileMode = '100644' | '100755' | '120000';
+
+/**
+ * Encoding of file content stored in the archive
+ */
+export type FileEncoding = 'utf8' | 'base64';
 
 /**
  * Single file operation in the manifest
@@ -15,6 +25,126 @@ export interface FileOperation {
   size?: number;
   /** SHA-256 hash of file content */
   hash?: string;
+  /** SHA-256 hash of the base version (content at source commit), stored under base/ */
+  baseHash?: string;
+  /** Content is stored under patches/ as a unified diff against the base version */
+  delta?: boolean;
+  /** How the stored content is encoded (utf8 when absent) */
+  encoding?: FileEncoding;
+  /** Git file mode; symlinks store their target path as content */
+  mode?: FileMode;
+}
+
+/**
+ * Commit packed into the archive for replay on the target
+ */
+export interface CommitEntry {
+  /** Original commit hash */
+  hash: string;
+  /** Full commit message */
+  message: string;
+  /** Commit author */
+  author: {
+    name: string;
+    email: string;
+  };
+  /** ISO timestamp of authoring */
+  date: string;
+  /** File operations of this commit, stored under commits/<hash>/ */
+  operations: FileOperation[];
+}
+
+/**
+ * Git bundle embedded in the archive
+ */
+export interface BundleInfo {
+  /** Archive entry holding the bundle */
+  file: string;
+  /** Revision range the bundle was created from */
+  range: string;
+  /** Refs contained in the bundle */
+  refs: Array<{ name: string; hash: string }>;
+  /** Commits the target must already have */
+  prerequisites: string[];
+}
+
+/**
+ * A bundle ref mapped to the local ref it is fetched into
+ */
+export interface FetchedRef {
+  name: string;
+  hash: string;
+  local: string;
+}
+
+/**
+ * Volume of a split archive, as listed in the master index
+ */
+export interface VolumeEntry {
+  /** 1-based part number */
+  part: number;
+  /** Volume file name */
+  file: string;
+  /** Size of the archive bytes carried by this volume */
+  size: number;
+  /** Checksum of the carried bytes (sha256:hex) */
+  hash: string;
+}
+
+/**
+ * Master index stored in every volume of a split archive
+ */
+export interface VolumeIndex {
+  version: string;
+  /** Set identifier shared by all volumes */
+  id: string;
+  /** Name of the original archive */
+  archive: string;
+  /** Size of the original archive */
+  size: number;
+  /** Checksum of the original archive (sha256:hex) */
+  hash: string;
+  created: string;
+  message?: string;
+  volumes: VolumeEntry[];
+}
+
+/**
+ * Key slot of an encrypted archive: the content key wrapped either with a
+ * passphrase-derived key or for a recipient's public key
+ */
+export type EncryptionKeySlot =
+  | {
+      type: 'passphrase';
+      /** scrypt parameters */
+      salt: string;
+      N: number;
+      r: number;
+      p: number;
+      iv: string;
+      tag: string;
+      key: string;
+    }
+  | {
+      type: 'x25519';
+      /** Fingerprint of the recipient's public key */
+      keyId: string;
+      /** Ephemeral public key (SPKI DER, base64) */
+      ephemeralKey: string;
+      iv: string;
+      tag: string;
+      key: string;
+    };
+
+/**
+ * Envelope of an encrypted archive (binary fields are base64)
+ */
+export interface EncryptionEnvelope {
+  version: string;
+  cipher: 'aes-256-gcm';
+  iv: string;
+  tag: string;
+  keys: EncryptionKeySlot[];
 }
 
 /**
@@ -49,6 +179,10 @@ export interface ExportStats {
 export interface Manifest {
   /** Manifest format version */
   version: string;
+  /** Unique ID of the archive (missing in older archives) */
+  id?: string;
+  /** ID of the archive this one continues; it must be imported first (--since-last) */
+  previous?: string;
   /** ISO timestamp of creation */
   created: string;
   /** Source repository info */
@@ -59,8 +193,14 @@ export interface Manifest {
   message?: string;
   /** Statistics */
   stats: ExportStats;
-  /** List of file operations */
+  /** List of file operations (squashed across commits in commits mode) */
   operations: FileOperation[];
+  /** Commits to replay, oldest first (commits mode only) */
+  commits?: CommitEntry[];
+  /** Embedded git bundle (bundle mode only, operations are informational) */
+  bundle?: BundleInfo;
+  /** Export profile the archive was made with */
+  profile?: string;
 }
 
 /**
@@ -79,12 +219,62 @@ export interface ExportOptions {
   include?: string[];
   /** User message to attach */
   message?: string;
+  /** Store modifications as patches against the source commit (manifest v2) */
+  delta?: boolean;
+  /** Commit range to export as individual commits (e.g. main..feature) */
+  commits?: string;
+  /** Embed a git bundle of this range (true for the full history of HEAD) */
+  bundle?: string | boolean;
+  /** Produce a single ASCII-armored text blob instead of a zip file */
+  armor?: boolean;
+  /** Split the archive into volumes of at most this size (e.g. 20MB) */
+  split?: string;
+  /** Encrypt the archive with a passphrase */
+  encrypt?: boolean;
+  /** Encrypt the archive for these X25519 public key files */
+  recipients?: string[];
+  /** Keep meta/info.txt readable outside the encrypted payload */
+  readableInfo?: boolean;
+  /** Sign the archive with an Ed25519 key (true for the default key) */
+  sign?: string | boolean;
+  /** Export even when possible secrets are found */
+  allowSecrets?: boolean;
+  /** zlib compression level (overrides the config) */
+  compression?: number;
+  /** Explain whether these paths would be exported instead of exporting */
+  explain?: string[];
+  /** Named export profile from the config */
+  profile?: string;
+  /** Export only what changed since the previous export from this repository */
+  sinceLast?: boolean;
+}
+
+/**
+ * Named export preset from the config. Command-line flags take precedence;
+ * excludes from both are combined.
+ */
+export interface ExportProfile {
+  /** Shown by `sync-kit profiles` */
+  description?: string;
+  mode?: 'changes' | 'full';
+  include?: string[];
+  exclude?: string[];
+  /** Message template; {profile}, {repo}, {branch}, {commit} and {date} are replaced */
+  message?: string;
+  /** Directory archives are written to (overrides the config) */
+  outputDir?: string;
+  delta?: boolean;
+  armor?: boolean;
+  split?: string;
+  encrypt?: boolean;
+  recipients?: string[];
+  sign?: string | boolean;
 }
 
 /**
  * Import command options
  */
-export interface ImportOptions {
+export interface ImportOptions extends ArchiveLimitOptions {
   /** Target directory */
   target?: string;
   /** Dry run - show what would be done */
@@ -93,14 +283,276 @@ export interface ImportOptions {
   noBackup?: boolean;
   /** Force - no confirmations */
   force?: boolean;
+  /** Refuse to import when the target does not contain the source commit */
+  strict?: boolean;
+  /** Apply packed commits as working tree changes instead of replaying them */
+  squash?: boolean;
+  /** Fast-forward the current branch to the bundle's ref */
+  fastForward?: boolean;
+  /** Refuse archives that are not signed by a trusted key */
+  requireSignature?: boolean;
+  /** Read the (armored) archive from the clipboard */
+  clipboard?: boolean;
+  /** Private key file for archives encrypted to a public key */
+  identity?: string;
+  /** Directory of trusted Ed25519 public keys */
+  trustedKeys?: string;
+  /** How to resolve conflicts without asking */
+  onConflict?: ConflictPolicy;
+}
+
+/**
+ * Options of the exportChanges API
+ */
+export interface ExportChangesOptions extends Omit<ExportOptions, 'quick' | 'explain'>, ExportHooks {
+  /** Repository to export (defaults to the current directory) */
+  cwd?: string;
+  /** Encrypt the archive with this passphrase */
+  passphrase?: string;
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Options of the importArchive API; conflicts are resolved by `onConflict`,
+ * else by `resolveConflict`, else the import fails
+ */
+export interface ImportArchiveOptions extends Omit<ImportOptions, 'force'>, ImportHooks {
+  /** Passphrase of an archive encrypted with one */
+  passphrase?: string;
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Options of the readManifest API
+ */
+export interface ReadManifestOptions extends ArchiveLimitOptions {
+  /** Private key file for archives encrypted to a public key */
+  identity?: string;
+  /** Passphrase of an archive encrypted with one */
+  passphrase?: string;
+}
+
+/**
+ * Stage of an export or import reported to API callers
+ */
+export type ProgressPhase =
+  | 'scan'
+  | 'snapshot'
+  | 'secrets'
+  | 'pack'
+  | 'sign'
+  | 'encrypt'
+  | 'load'
+  | 'verify'
+  | 'backup'
+  | 'apply'
+  | 'replay'
+  | 'fetch';
+
+/**
+ * Progress of an API call; counts are set for phases that go item by item
+ */
+export interface ProgressEvent {
+  phase: ProgressPhase;
+  current?: number;
+  total?: number;
+  /** File path or commit subject just processed */
+  item?: string;
+  /** Bytes read so far and in all, for phases that stream file content */
+  processedBytes?: number;
+  totalBytes?: number;
+}
+
+export type ProgressCallback = (event: ProgressEvent) => void;
+
+/**
+ * Changes an export found, with the commits or bundle they come from
+ */
+export interface FoundChanges {
+  changes: DetectedChange[];
+  /** Packed commits, oldest first */
+  commits?: CommitEntry[];
+  bundle?: BundleInfo;
+  /** Id of the export an incremental export continues */
+  previous?: string;
+}
+
+/**
+ * Callbacks that show an export as it runs and answer what it would ask.
+ * Without them nothing is asked and options are decided as by
+ * `sync-kit export --quick`.
+ */
+export interface ExportHooks {
+  /** Repository and profile the export runs with */
+  onSource?: (source: SourceInfo, profile?: ExportProfile) => void;
+  /** Changes found, before anything is asked */
+  onChanges?: (found: FoundChanges) => void;
+  /** Options that have no effect and steps left out */
+  onNotice?: (message: string) => void;
+  /** Findings of the secrets scan, before they block the export */
+  onSecrets?: (findings: SecretFinding[]) => void;
+  /**
+   * Choose what to export when no mode is given: the changes to export,
+   * 'full' for a full snapshot, or undefined to cancel the export
+   */
+  selectChanges?: (
+    changes: DetectedChange[],
+    loadSnapshot: () => Promise<DetectedChange[]>,
+    defaultMode: 'changes' | 'full'
+  ) => Promise<DetectedChange[] | 'full' | undefined>;
+  /** Ask for a message when none is given, offering the profile template */
+  promptMessage?: (template?: string) => Promise<string>;
+  /** Ask for the passphrase when encrypting without one */
+  getPassphrase?: () => Promise<string>;
+  /** Deliver armored text that has no output file; resolves to where it went */
+  sendArmored?: (armored: string) => Promise<string>;
+}
+
+/**
+ * What an import is about to do: apply operations, recreate packed commits
+ * on a branch, or fetch bundle refs and optionally fast-forward the branch
+ */
+export type ImportPlan =
+  | { kind: 'operations'; operations: FileOperation[] }
+  | { kind: 'commits'; commits: CommitEntry[]; branch: string }
+  | { kind: 'bundle'; refs: FetchedRef[]; branch: string; fastForward?: FetchedRef };
+
+/**
+ * Callbacks that show an import as it runs and answer what it would ask;
+ * without them nothing is asked
+ */
+export interface ImportHooks {
+  /** Archive read, with its signature checked but not yet enforced */
+  onArchive?: (manifest: Manifest, archive: { path: string; volumes?: number; signature: SignatureCheck }) => void;
+  /** Unsafe operations, before the archive is refused */
+  onRejected?: (rejected: RejectedOperation[]) => void;
+  /** Archive content, or the files written to the target, checked against the manifest */
+  onVerified?: (report: IntegrityReport, stage: 'archive' | 'target') => void;
+  /** Directory the archive is imported into */
+  onTarget?: (targetDir: string) => void;
+  /** Target HEAD compared against the source commit */
+  onBaseCheck?: (check: BaseCommitCheck) => void;
+  /** Options that have no effect and operations left out */
+  onNotice?: (message: string) => void;
+  /** What the import is about to do, or in a dry run would do */
+  onPlan?: (plan: ImportPlan) => void;
+  /** Confirm the plan before anything is changed; false cancels the import */
+  confirm?: (plan: ImportPlan) => Promise<boolean>;
+  /** Conflicts found, before they are resolved */
+  onConflicts?: (conflicts: Conflict[]) => void;
+  /** Choose how to resolve a conflict that does not merge cleanly */
+  resolveConflict?: (
+    conflict: Conflict,
+    choice: { index: number; total: number; canMerge: boolean; canOverwrite: boolean }
+  ) => Promise<ConflictResolution>;
+  /** Operations merged with the local version */
+  onMerged?: (merged: MergedOperation[]) => void;
+  /** Backup created before anything is changed */
+  onBackup?: (backupPath: string) => void;
+  /** Ask for the passphrase of an encrypted archive */
+  getPassphrase?: () => Promise<string>;
+}
+
+/**
+ * Restore command options
+ */
+export interface RestoreOptions {
+  /** Backup timestamp to restore */
+  timestamp?: string;
+  /** Only list available backups */
+  list?: boolean;
+  /** Restore the most recent backup */
+  latest?: boolean;
+  /** Target directory */
+  target?: string;
+  /** Force - no confirmations */
+  force?: boolean;
 }
 
 /**
  * Preview command options
  */
-export interface PreviewOptions {
+export interface PreviewOptions extends ArchiveLimitOptions {
   /** Show file contents */
   contents?: boolean;
+  /** Read the (armored) archive from the clipboard */
+  clipboard?: boolean;
+  /** Private key file for archives encrypted to a public key */
+  identity?: string;
+  /** Directory of trusted Ed25519 public keys */
+  trustedKeys?: string;
+}
+
+/**
+ * Verify command options
+ */
+export interface VerifyOptions extends ArchiveLimitOptions {
+  /** Read the (armored) archive from the clipboard */
+  clipboard?: boolean;
+  /** Private key file for archives encrypted to a public key */
+  identity?: string;
+  /** Directory of trusted Ed25519 public keys */
+  trustedKeys?: string;
+}
+
+/**
+ * Relation between the archive's source commit and the target HEAD
+ */
+export interface BaseCommitCheck {
+  /** Source commit from the manifest */
+  sourceCommit: string;
+  /** Target HEAD commit (short) */
+  targetCommit: string;
+  /** Target branch name */
+  targetBranch: string;
+  /** Target repository knows the source commit */
+  known: boolean;
+  /** Target HEAD is the source commit */
+  matches: boolean;
+  /** Target HEAD contains the source commit in its history */
+  contains: boolean;
+  /** Commits in target HEAD that are not in the source commit */
+  ahead: number;
+  /** Commits in the source commit that are not in target HEAD */
+  behind: number;
+}
+
+/**
+ * Signature of an archive, stored as signature.json.
+ * Covers the signer and the digest of every other archive entry.
+ */
+export interface ArchiveSignature {
+  version: string;
+  algorithm: 'ed25519';
+  /** Signer identity claimed at export (git user) */
+  signer?: string;
+  /** Fingerprint of the signing key */
+  keyId: string;
+  /** Signing public key (SPKI DER, base64) */
+  publicKey: string;
+  /** Digest of each signed entry by archive name */
+  entries: Record<string, string>;
+  /** Ed25519 signature (base64) */
+  signature: string;
+}
+
+/**
+ * Signature verification status of an archive
+ */
+export type SignatureStatus = 'valid' | 'untrusted' | 'invalid' | 'unsigned';
+
+/**
+ * Result of verifying an archive signature
+ */
+export interface SignatureCheck {
+  status: SignatureStatus;
+  /** Signer identity claimed in the signature */
+  signer?: string;
+  keyId?: string;
+  /** Name of the trusted key that verified the signature */
+  trustedAs?: string;
+  /** Why the signature is invalid */
+  reason?: string;
 }
 
 /**
@@ -123,6 +575,27 @@ export interface DetectedChange {
   from?: string;
   size: number;
   hash?: string;
+  mode?: FileMode;
+}
+
+/**
+ * Hash, size and mode of a working tree file
+ */
+export interface HashedFile {
+  hash: string;
+  size: number;
+  mode: FileMode;
+}
+
+/**
+ * Cached hash of a working tree file, reused while its size, mtime and
+ * inode are unchanged
+ */
+export interface HashCacheEntry {
+  size: number;
+  mtimeMs: number;
+  ino: number;
+  hash: string;
 }
 
 /**
@@ -131,6 +604,191 @@ export interface DetectedChange {
 export interface Conflict {
   path: string;
   reason: 'modified_locally' | 'deleted_locally' | 'already_exists';
+  /** Local and incoming changes merge cleanly against the base version */
+  mergeable?: boolean;
+}
+
+/**
+ * Mismatch between the manifest and archive entries or written files
+ */
+export interface IntegrityIssue {
+  path: string;
+  problem: 'missing' | 'extra' | 'unreadable' | 'size_mismatch' | 'hash_mismatch' | 'mode_mismatch' | 'not_deleted';
+  expected?: string;
+  actual?: string;
+}
+
+/**
+ * Result of checking content against the manifest
+ */
+export interface IntegrityReport {
+  /** Number of operations checked */
+  checked: number;
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Operation refused by import validation
+ */
+export interface RejectedOperation {
+  path: string;
+  reason: string;
+}
+
+/**
+ * Limits an archive must stay within before anything is extracted
+ */
+export interface ArchiveLimits {
+  /** Maximum number of zip entries */
+  maxEntries: number;
+  /** Maximum uncompressed size of a single entry in bytes */
+  maxEntrySize: number;
+  /** Maximum total uncompressed size in bytes */
+  maxTotalSize: number;
+  /** Maximum uncompressed/compressed ratio of large entries */
+  maxCompressionRatio: number;
+}
+
+/**
+ * Archive limits in the config; sizes are written as for --split, e.g. 4GB
+ */
+export interface ArchiveLimitsConfig {
+  maxEntries?: number;
+  maxEntrySize?: string;
+  maxTotalSize?: string;
+  maxCompressionRatio?: number;
+}
+
+/**
+ * Size limits of commands that read archives, replacing those of the config
+ */
+export interface ArchiveLimitOptions {
+  /** Maximum uncompressed size of a single entry, e.g. 1GB */
+  maxEntrySize?: string;
+  /** Maximum total uncompressed size, e.g. 8GB */
+  maxTotalSize?: string;
+}
+
+/**
+ * Secret detector
+ */
+export interface SecretRule {
+  name: string;
+  pattern: RegExp;
+}
+
+/**
+ * Secret scanning settings
+ */
+export interface SecretsConfig {
+  /** Custom detectors: rule name -> regex */
+  patterns?: Record<string, string>;
+  /** Glob patterns of files that are never reported */
+  allow?: string[];
+}
+
+/**
+ * Possible secret found in a file about to be exported
+ */
+export interface SecretFinding {
+  file: string;
+  /** 1-based line number */
+  line: number;
+  /** Name of the rule that matched */
+  rule: string;
+  /** Redacted match */
+  match: string;
+}
+
+/**
+ * File to scan for secrets, read only when its size is within the scan limit
+ */
+export interface SecretScanFile {
+  /** Path shown in findings; earlier versions of packed commits are labeled path@commit */
+  file: string;
+  size: number;
+  read: () => Promise<Buffer>;
+}
+
+/**
+ * Conflict resolution choice
+ */
+export type ConflictResolution = 'overwrite' | 'skip' | 'keep' | 'merge';
+
+/**
+ * Conflict policy for unattended imports: abort, keep local versions,
+ * take archive versions, or skip conflicting files
+ */
+export type ConflictPolicy = 'fail' | 'ours' | 'theirs' | 'skip';
+
+/**
+ * Result of a three-way text merge
+ */
+export interface MergeOutcome {
+  /** Merged text, with conflict markers where changes overlap */
+  content: string;
+  /** Number of conflicting hunks */
+  conflicts: number;
+}
+
+/**
+ * Operation merged with the local version
+ */
+export interface MergedOperation {
+  op: FileOperation;
+  /** Number of conflicting hunks marked in the merged content */
+  conflicts: number;
+}
+
+/**
+ * Outcome of applying operations as a single transaction
+ */
+export interface TransactionResult {
+  /** Whether every operation was committed */
+  committed: boolean;
+  /** Operations written to the working tree (empty after rollback) */
+  applied: FileOperation[];
+  /** Operation that caused the rollback */
+  failedOperation?: FileOperation;
+  /** Error message that caused the rollback */
+  error?: string;
+  /** Error restoring the backup; the working tree may be partly applied */
+  restoreError?: string;
+}
+
+/**
+ * Export result
+ */
+export interface ExportResult {
+  manifest: Manifest;
+  /** Archive file, first volume, or (clipboard)/(stdout) for armored archives */
+  archivePath: string;
+  /** Size of the archive or armored text in bytes */
+  archiveSize: number;
+  /** Every volume of a split archive */
+  volumes?: string[];
+  /** Armored text written to stdout */
+  armored?: string;
+}
+
+/**
+ * Preview result
+ */
+export interface PreviewResult {
+  manifest: Manifest;
+  /** Names of all archive entries */
+  entries: string[];
+  signature: SignatureCheck;
+}
+
+/**
+ * Verify result
+ */
+export interface VerifyResult {
+  manifest: Manifest;
+  signature: SignatureCheck;
+  integrity: IntegrityReport;
+  rejected: RejectedOperation[];
 }
 
 /**
@@ -139,8 +797,50 @@ export interface Conflict {
 export interface ImportResult {
   applied: FileOperation[];
   skipped: FileOperation[];
+  /** Operations applied through a three-way merge */
+  merged: FileOperation[];
   conflicts: Conflict[];
   backupPath?: string;
+  /** Whether the import was committed or rolled back */
+  committed: boolean;
+  /** Error message when the import was rolled back */
+  error?: string;
+  /** Nothing was written; applied lists what would be applied */
+  dryRun?: boolean;
+  /** Hashes of the commits recreated on the target branch */
+  commits?: string[];
+}
+
+/**
+ * Backup manifest stored alongside backed up files
+ */
+export interface BackupManifest {
+  /** Backup format version */
+  version: string;
+  /** ISO timestamp of creation */
+  created: string;
+  /** Archive whose import this backup precedes */
+  archive?: string;
+  /** Paths the import created (did not exist before) */
+  added: string[];
+  /** Existing paths the import overwrote */
+  modified: string[];
+  /** Paths the import deleted */
+  deleted: string[];
+  /** Renames performed by the import */
+  renamed: Array<{ from: string; to: string }>;
+}
+
+/**
+ * Backup directory with its manifest
+ */
+export interface BackupInfo {
+  /** Absolute path of the backup directory */
+  path: string;
+  /** Timestamp from the directory name */
+  timestamp: string;
+  /** Manifest (absent for backups made before manifests existed) */
+  manifest?: BackupManifest;
 }
 
 /**
@@ -152,6 +852,62 @@ export interface HistoryEntry {
   archivePath: string;
   stats: ExportStats;
   message?: string;
+  /** Export profile of the archive */
+  profile?: string;
+  /** Manifest ID of the archive */
+  archiveId?: string;
+  /** Files the receiver has once an export is applied, for --since-last */
+  baseline?: ExportBaseline;
+}
+
+/**
+ * Working tree state an export leaves the receiver with: the commit it is
+ * based on, and files changed on top of it by the export and the exports
+ * it continues (null for deleted files)
+ */
+export interface ExportBaseline {
+  commit: string;
+  files: Record<string, BaselineFile | null>;
+}
+
+/**
+ * Hash and mode of a file in an export baseline
+ */
+export interface BaselineFile {
+  hash: string;
+  mode: FileMode;
+}
+
+/**
+ * Rule of a .syncignore file
+ */
+export interface IgnoreRule {
+  /** Ignore file, relative to the repository root */
+  file: string;
+  /** 1-based line number */
+  line: number;
+  /** Pattern as written */
+  pattern: string;
+  /** `!` rule re-including what earlier rules excluded */
+  negated: boolean;
+}
+
+/**
+ * Ignore rule deciding a path
+ */
+export interface IgnoreMatch extends IgnoreRule {
+  /** The path itself, or the parent directory the rule matched */
+  matched: string;
+}
+
+/**
+ * Why a path is or is not exported
+ */
+export interface PathExplanation {
+  path: string;
+  included: boolean;
+  /** Deciding pattern or rule */
+  reason: string;
 }
 
 /**
@@ -164,4 +920,66 @@ export interface Config {
   historyFile: string;
   /** Backup directory */
   backupDir: string;
+  /** Number of backups to keep, oldest are removed (0 keeps all) */
+  backupRetention: number;
+  /** Directory archives are written to (default: repository root) */
+  outputDir?: string;
+  /** zlib compression level of archives (0-9) */
+  compressionLevel: number;
+  /** Export mode used without --changes or --full */
+  defaultMode: 'changes' | 'full';
+  /** Secret scanning rules and allowlist */
+  secrets: SecretsConfig;
+  /** Named export profiles */
+  profiles: Record<string, ExportProfile>;
+  /** Limits archives must stay within before anything is extracted */
+  archiveLimits: ArchiveLimitsConfig;
 }
+
+/**
+ * Layer a config value comes from
+ */
+export type ConfigSource = 'default' | 'user' | 'repo' | 'flag';
+
+/**
+ * Effective config with the layer each value comes from
+ */
+export interface LoadedConfig {
+  values: Config;
+  sources: Record<keyof Config, ConfigSource>;
+  /** Config files that were read, by layer */
+  files: Partial<Record<'user' | 'repo', string>>;
+}
+
+/**
+ * Stable code identifying why a command failed
+ */
+export type ErrorCode =
+  | 'USAGE'
+  | 'INTERACTION_REQUIRED'
+  | 'CONFLICTS'
+  | 'NOT_A_REPOSITORY'
+  | 'CONFIG_INVALID'
+  | 'PROFILE_NOT_FOUND'
+  | 'ARCHIVE_NOT_FOUND'
+  | 'ARCHIVE_INVALID'
+  | 'ARCHIVE_INCOMPLETE'
+  | 'ARCHIVE_CORRUPTED'
+  | 'ARCHIVE_LIMIT_EXCEEDED'
+  | 'UNSAFE_ARCHIVE'
+  | 'DECRYPTION_FAILED'
+  | 'KEY_INVALID'
+  | 'SIGNATURE_INVALID'
+  | 'SIGNATURE_REQUIRED'
+  | 'SECRETS_FOUND'
+  | 'NOTHING_TO_EXPORT'
+  | 'BASE_COMMIT_MISSING'
+  | 'PREVIOUS_EXPORT_NOT_FOUND'
+  | 'PREDECESSOR_NOT_APPLIED'
+  | 'DIRTY_WORKING_TREE'
+  | 'BACKUP_NOT_FOUND'
+  | 'IMPORT_ROLLED_BACK'
+  | 'TARGET_MISMATCH'
+  | 'MERGE_UNAVAILABLE'
+  | 'FAST_FORWARD_FAILED'
+  | 'UNEXPECTED_ERROR';
@@ -0,0 +1,96 @@
+import { colors, symbols } from './theme.js';
+import { BackupInfo } from '../types/index.js';
+
+/**
+ * Format backup timestamp (YYYYMMDD-HHMMSS) for display
+ */
+export function formatBackupTimestamp(timestamp: string): string {
+  const match = timestamp.match(/^(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})$/);
+  if (!match) {
+    return timestamp;
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
+}
+
+/**
+ * Get stats string for a backup
+ */
+export function getBackupStatsString(backup: BackupInfo): string {
+  if (!backup.manifest) {
+    return colors.dim('no manifest');
+  }
+
+  const { added, modified, deleted, renamed } = backup.manifest;
+  const parts: string[] = [];
+  if (added.length) parts.push(colors.added(`+${added.length}`));
+  if (modified.length) parts.push(colors.modified(`~${modified.length}`));
+  if (deleted.length) parts.push(colors.deleted(`-${deleted.length}`));
+  if (renamed.length) parts.push(colors.renamed(`→${renamed.length}`));
+
+  return parts.length > 0 ? parts.join(' ') : colors.dim('empty');
+}
+
+/**
+ * Display list of available backups
+ */
+export function displayBackupList(backups: BackupInfo[]): void {
+  console.log();
+  console.log(`  ${colors.bold('Backups')} ${colors.dim(`(${backups.length} available)`)}`);
+  console.log();
+
+  for (let i = 0; i < backups.length; i++) {
+    const backup = backups[i];
+    const isLast = i === backups.length - 1;
+    const connector = isLast ? symbols.corner : symbols.tee;
+    const latest = i === 0 ? colors.dim(' (latest)') : '';
+
+    console.log(
+      `  ${colors.dim(connector)} ${colors.cyan(backup.timestamp)}  ${colors.dim(formatBackupTimestamp(backup.timestamp))}  ${getBackupStatsString(backup)}${latest}`
+    );
+
+    if (backup.manifest?.archive) {
+      const prefix = isLast ? ' ' : symbols.vertical;
+      const filename = backup.manifest.archive.split('/').pop() || backup.manifest.archive;
+      console.log(`  ${colors.dim(prefix)}   ${colors.dim(filename)}`);
+    }
+  }
+
+  console.log();
+}
+
+/**
+ * Display what restoring a backup will do
+ */
+export function displayBackupDetails(backup: BackupInfo): void {
+  console.log();
+  console.log(`  ${colors.dim('Backup:')}   ${backup.path}`);
+  console.log(`  ${colors.dim('Created:')}  ${formatBackupTimestamp(backup.timestamp)}`);
+
+  if (!backup.manifest) {
+    console.log();
+    console.log(`  ${colors.warning(symbols.warning)} ${colors.dim('Backup has no manifest - files created by the import will not be removed')}`);
+    return;
+  }
+
+  const { archive, added, modified, deleted, renamed } = backup.manifest;
+
+  if (archive) {
+    console.log(`  ${colors.dim('Archive:')}  ${archive}`);
+  }
+
+  console.log();
+  for (const path of added) {
+    console.log(`  ${colors.deleted('-')} ${path} ${colors.dim('(created by import, will be removed)')}`);
+  }
+  for (const path of modified) {
+    console.log(`  ${colors.modified('~')} ${path} ${colors.dim('(previous content restored)')}`);
+  }
+  for (const path of deleted) {
+    console.log(`  ${colors.added('+')} ${path} ${colors.dim('(deleted by import, will be restored)')}`);
+  }
+  for (const { from, to } of renamed) {
+    console.log(`  ${colors.renamed('→')} ${colors.dim(to)} ${colors.cyan('→')} ${from} ${colors.dim('(rename reverted)')}`);
+  }
+}
@@ -1,4 +1,5 @@
 import { colors } from './theme.js';
+import { BaseCommitCheck, SignatureCheck } from '../types/index.js';
 
 const VERSION = '1.0.0';
 
@@ -81,6 +82,57 @@ export function displayRepoInfo(info: {
   }
 }
 
+/**
+ * Display how the target HEAD relates to the archive's source commit
+ */
+export function displayBaseCommitCheck(check: BaseCommitCheck, sourceBranch: string): void {
+  const source = `${check.sourceCommit} ${colors.dim(`(${sourceBranch})`)}`;
+  const target = `${check.targetCommit} ${colors.dim(`(${check.targetBranch})`)}`;
+
+  console.log(`  ${colors.dim('Source:')} ${source}`);
+  console.log(`  ${colors.dim('HEAD:')}   ${target}`);
+
+  if (!check.known) {
+    console.log(`  ${colors.warning('⚠')} Source commit ${check.sourceCommit} not found in target repository`);
+  } else if (check.matches) {
+    console.log(`  ${colors.success('✔')} HEAD matches source commit`);
+  } else if (check.contains) {
+    console.log(`  ${colors.success('✔')} HEAD contains source commit ${colors.dim(`(${check.ahead} ahead)`)}`);
+  } else {
+    console.log(
+      `  ${colors.warning('⚠')} HEAD does not contain source commit ${colors.dim(`(${check.ahead} ahead, ${check.behind} behind)`)}`
+    );
+  }
+
+  if (sourceBranch !== check.targetBranch) {
+    console.log(`  ${colors.warning('⚠')} Archive was exported from branch ${colors.bold(sourceBranch)}, target is on ${colors.bold(check.targetBranch)}`);
+  }
+}
+
+/**
+ * Display who signed the archive and whether the signature verifies
+ */
+export function displaySignatureCheck(check: SignatureCheck): void {
+  const signer = check.signer ?? 'unknown signer';
+  const keyId = colors.dim(`(key ${check.keyId})`);
+
+  switch (check.status) {
+    case 'unsigned':
+      console.log(`  ${colors.warning('⚠')} Archive is not signed`);
+      break;
+    case 'valid':
+      console.log(`  ${colors.success('✔')} Signed by ${colors.bold(check.trustedAs!)} ${keyId}`);
+      console.log(`    ${colors.dim(`Signer: ${signer}`)}`);
+      break;
+    case 'untrusted':
+      console.log(`  ${colors.warning('⚠')} Signed by ${signer} with an untrusted key ${keyId}`);
+      break;
+    case 'invalid':
+      console.log(`  ${colors.error('✖')} Invalid signature from ${signer}: ${check.reason}`);
+      break;
+  }
+}
+
 /**
  * Display archive info section
  */
@@ -89,6 +141,9 @@ export function displayArchiveInfo(info: {
   created: string;
   size?: number;
   message?: string;
+  profile?: string;
+  /** ID of the archive this one continues */
+  previous?: string;
 }): void {
   console.log();
   console.log(`  ${colors.dim('Archive:')}  ${info.path}`);
@@ -99,6 +154,14 @@ export function displayArchiveInfo(info: {
     console.log(`  ${colors.dim('Size:')}     ${sizeStr}`);
   }
 
+  if (info.profile) {
+    console.log(`  ${colors.dim('Profile:')}  ${info.profile}`);
+  }
+
+  if (info.previous) {
+    console.log(`  ${colors.dim('Follows:')}  ${info.previous}`);
+  }
+
   if (info.message) {
     console.log(`  ${colors.dim('Message:')}  "${info.message}"`);
   }
@@ -273,9 +336,12 @@ export function displayExportSuccess(options: {
   fileCount: number;
   stats: { added?: number; modified?: number; deleted?: number; renamed?: number };
   copiedToClipboard?: boolean;
+  armored?: boolean;
+  volumes?: number;
   elapsed?: string;
 }): void {
-  const { archivePath, archiveSize, fileCount, stats, copiedToClipboard, elapsed } = options;
+  const { archivePath, archiveSize, fileCount, stats, copiedToClipboard, armored, volumes, elapsed } = options;
+  const clipboardNote = armored ? '📋 Armored archive copied to clipboard' : '📋 Path copied to clipboard';
 
   displayResultCard({
     type: 'success',
@@ -284,10 +350,11 @@ export function displayExportSuccess(options: {
       { label: 'Archive', value: archivePath },
       { label: 'Size', value: formatBytes(archiveSize) },
       { label: 'Files', value: `${fileCount} files` },
+      ...(volumes ? [{ label: 'Volumes', value: `${volumes} parts` }] : []),
       ...(elapsed ? [{ label: 'Time', value: elapsed }] : []),
     ],
     stats,
-    footer: copiedToClipboard ? '📋 Path copied to clipboard' : undefined,
+    footer: copiedToClipboard ? clipboardNote : undefined,
   });
 }
 
@@ -315,3 +382,52 @@ export function displayImportSuccess(options: {
     stats,
   });
 }
+
+/**
+ * Display commit replay success card
+ */
+export function displayReplaySuccess(options: {
+  archivePath: string;
+  commitCount: number;
+  branch: string;
+  head: string;
+  stats: { added?: number; modified?: number; deleted?: number; renamed?: number };
+  elapsed?: string;
+}): void {
+  const { archivePath, commitCount, branch, head, stats, elapsed } = options;
+
+  displayResultCard({
+    type: 'success',
+    title: 'IMPORT COMPLETE',
+    fields: [
+      { label: 'Archive', value: archivePath },
+      { label: 'Commits', value: `${commitCount} commits replayed` },
+      { label: 'Branch', value: `${branch} (${head})` },
+      ...(elapsed ? [{ label: 'Time', value: elapsed }] : []),
+    ],
+    stats,
+  });
+}
+
+/**
+ * Display bundle fetch success card
+ */
+export function displayBundleSuccess(options: {
+  archivePath: string;
+  refs: string[];
+  branch?: string;
+  backupPath?: string;
+}): void {
+  const { archivePath, refs, branch, backupPath } = options;
+
+  displayResultCard({
+    type: 'success',
+    title: 'IMPORT COMPLETE',
+    fields: [
+      { label: 'Archive', value: archivePath },
+      ...refs.map((ref) => ({ label: 'Fetched', value: ref })),
+      ...(branch ? [{ label: 'Branch', value: branch }] : []),
+      ...(backupPath ? [{ label: 'Backup', value: backupPath }] : []),
+    ],
+  });
+}
@@ -0,0 +1,43 @@
+import { colors, symbols } from './theme.js';
+import { BundleInfo, CommitEntry } from '../types/index.js';
+
+/**
+ * Display packed commits, oldest first
+ */
+export function displayCommitList(commits: CommitEntry[], title: string = 'Commits'): void {
+  console.log();
+  console.log(`  ${colors.dim('┌─')} ${colors.bold(title)} ${colors.dim(`(${commits.length})`)}`);
+
+  for (const commit of commits) {
+    const subject = commit.message.split('\n')[0];
+    const date = new Date(commit.date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+    });
+
+    console.log(
+      `  ${colors.dim(symbols.vertical)}  ${colors.warning(commit.hash.slice(0, 7))} ${subject} ${colors.dim(`— ${commit.author.name}, ${date}, ${commit.operations.length} file(s)`)}`
+    );
+  }
+
+  console.log(`  ${colors.dim(symbols.corner + symbols.horizontal.repeat(50))}`);
+}
+
+/**
+ * Display refs and prerequisites of an embedded git bundle
+ */
+export function displayBundleInfo(bundle: BundleInfo): void {
+  console.log();
+  console.log(`  ${colors.dim('┌─')} ${colors.bold('Git Bundle')} ${colors.dim(`(${bundle.range})`)}`);
+
+  for (const ref of bundle.refs) {
+    console.log(`  ${colors.dim(symbols.vertical)}  ${colors.warning(ref.hash.slice(0, 7))} ${ref.name}`);
+  }
+
+  const requires = bundle.prerequisites.length > 0
+    ? `requires ${bundle.prerequisites.map((hash) => hash.slice(0, 7)).join(', ')}`
+    : 'full history, no prerequisites';
+  console.log(`  ${colors.dim(symbols.vertical)}  ${colors.dim(requires)}`);
+
+  console.log(`  ${colors.dim(symbols.corner + symbols.horizontal.repeat(50))}`);
+}
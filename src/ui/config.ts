@@ -0,0 +1,80 @@
+import { colors } from './theme.js';
+import { Config, ConfigSource, ExportProfile, LoadedConfig } from '../types/index.js';
+
+/**
+ * Colors of the config layers
+ */
+const sourceColors: Record<ConfigSource, (text: string) => string> = {
+  default: (text) => colors.dim(text),
+  user: (text) => colors.cyan(text),
+  repo: (text) => colors.success(text),
+  flag: (text) => colors.warning(text),
+};
+
+/**
+ * Display effective config values with their sources and the files read
+ */
+export function displayConfig(config: LoadedConfig): void {
+  const keys = Object.keys(config.sources) as Array<keyof Config>;
+  const width = Math.max(...keys.map((key) => key.length));
+
+  console.log();
+  console.log(`  ${colors.bold('Effective Config')}`);
+  console.log();
+
+  for (const key of keys) {
+    const source = config.sources[key];
+    console.log(
+      `    ${colors.muted(key.padEnd(width))}  ${formatValue(config.values[key])}  ${sourceColors[source](`(${source})`)}`
+    );
+  }
+
+  console.log();
+  console.log(`  ${colors.bold('Config Files')}`);
+  console.log();
+  console.log(`    ${colors.muted('user'.padEnd(width))}  ${config.files.user ?? colors.dim('not found')}`);
+  console.log(`    ${colors.muted('repo'.padEnd(width))}  ${config.files.repo ?? colors.dim('not found')}`);
+  console.log();
+}
+
+/**
+ * Display export profiles with their presets
+ */
+export function displayProfiles(profiles: Record<string, ExportProfile>, file?: string): void {
+  const names = Object.keys(profiles);
+
+  console.log();
+  if (names.length === 0) {
+    console.log(`  ${colors.dim('No profiles configured')}`);
+    console.log();
+    return;
+  }
+
+  console.log(`  ${colors.bold('Profiles')} ${colors.dim(`(${names.length}${file ? ` from ${file}` : ''})`)}`);
+
+  for (const name of names) {
+    const { description, ...presets } = profiles[name];
+
+    console.log();
+    console.log(`  ${colors.cyan(name)}${description ? `  ${colors.dim(description)}` : ''}`);
+
+    for (const [key, value] of Object.entries(presets)) {
+      console.log(`    ${colors.muted(key.padEnd(10))}  ${formatValue(value)}`);
+    }
+  }
+
+  console.log();
+}
+
+/**
+ * Format a config value on one line
+ */
+function formatValue(value: Config[keyof Config] | ExportProfile[keyof ExportProfile]): string {
+  if (value === undefined) {
+    return colors.dim('—');
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -73,7 +73,8 @@ export function displayConflictsSummary(conflicts: Conflict[]): void {
 
     for (const conflict of groupConflicts) {
       const fileIcon = getFileIcon(conflict.path);
-      console.log(`     ${colors.dim(symbols.tee)} ${fileIcon} ${conflict.path}`);
+      const mergeNote = conflict.mergeable ? ` ${colors.success('(auto-merge)')}` : '';
+      console.log(`     ${colors.dim(symbols.tee)} ${fileIcon} ${conflict.path}${mergeNote}`);
     }
     console.log();
   }
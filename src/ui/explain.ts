@@ -0,0 +1,22 @@
+import { colors, symbols } from './theme.js';
+import { PathExplanation } from '../types/index.js';
+
+/**
+ * Display whether each path would be exported and the deciding rule
+ */
+export function displayPathExplanations(explanations: PathExplanation[]): void {
+  console.log();
+  console.log(`  ${colors.bold('Export Filters')}`);
+  console.log();
+
+  for (const explanation of explanations) {
+    const status = explanation.included
+      ? `${colors.success(symbols.success)} ${explanation.path} ${colors.success('included')}`
+      : `${colors.error(symbols.error)} ${explanation.path} ${colors.error('excluded')}`;
+
+    console.log(`    ${status}`);
+    console.log(`      ${colors.dim(explanation.reason)}`);
+  }
+
+  console.log();
+}
@@ -95,8 +95,9 @@ export function displayHistoryGraph(entries: HistoryEntry[]): void {
 
       // Archive path
       const filename = entry.archivePath.split('/').pop() || entry.archivePath;
+      const profile = entry.profile ? ` ${colors.cyan(`[${entry.profile}]`)}` : '';
       console.log(
-        `           ${colors.dim('│')} ${colors.dim(filename)}`
+        `           ${colors.dim('│')} ${colors.dim(filename)}${profile}`
       );
 
       // Message if present
@@ -148,9 +149,10 @@ export function displayHistoryList(entries: HistoryEntry[]): void {
 
     const filename = entry.archivePath.split('/').pop() || entry.archivePath;
     const stats = getStatsString(entry.stats);
+    const profile = entry.profile ? `  ${colors.cyan(`[${entry.profile}]`)}` : '';
 
     console.log(
-      `  ${colors.dim(connector)} ${typeColor(typeIcon)} ${colors.dim(dateStr)} ${colors.dim(timeStr)}  ${filename}  ${stats}`
+      `  ${colors.dim(connector)} ${typeColor(typeIcon)} ${colors.dim(dateStr)} ${colors.dim(timeStr)}  ${filename}  ${stats}${profile}`
     );
 
     if (entry.message) {
@@ -191,6 +193,11 @@ export function displayHistoryEntry(entry: HistoryEntry, index: number): void {
   const stats = getStatsString(entry.stats);
   console.log(`  ${borderColor('│')}  ${colors.dim('Changes')}  ${stats}`.padEnd(76) + `${borderColor('│')}`);
 
+  // Profile
+  if (entry.profile) {
+    console.log(`  ${borderColor('│')}  ${colors.dim('Profile')}  ${fitString(entry.profile, 40)}`.padEnd(56) + `${borderColor('│')}`);
+  }
+
   // Message
   if (entry.message) {
     console.log(`  ${borderColor('│')}  ${colors.dim('Message')}  "${fitString(entry.message, 38)}"`.padEnd(56) + `${borderColor('│')}`);
@@ -0,0 +1,57 @@
+import { colors } from './theme.js';
+import { IntegrityIssue, IntegrityReport, RejectedOperation } from '../types/index.js';
+
+/**
+ * Integrity problem descriptions
+ */
+const problemLabels: Record<IntegrityIssue['problem'], string> = {
+  missing: 'missing',
+  extra: 'not in manifest',
+  unreadable: 'unreadable entry',
+  size_mismatch: 'size mismatch',
+  hash_mismatch: 'hash mismatch',
+  mode_mismatch: 'mode mismatch',
+  not_deleted: 'not deleted',
+};
+
+/**
+ * Display integrity problems, one per line with expected and actual values
+ */
+export function displayIntegrityReport(report: IntegrityReport, title: string = 'Integrity Problems'): void {
+  if (report.issues.length === 0) {
+    return;
+  }
+
+  console.log();
+  const summary = `${report.issues.length} problem(s), ${report.checked} file(s) checked`;
+  console.log(`  ${colors.error('✖')} ${colors.bold(title)} ${colors.dim(`(${summary})`)}`);
+  console.log();
+
+  for (const issue of report.issues) {
+    console.log(`    ${colors.error('•')} ${issue.path} ${colors.warning(problemLabels[issue.problem])}`);
+
+    if (issue.expected) {
+      console.log(`      ${colors.dim('expected:')} ${issue.expected}`);
+    }
+    if (issue.actual) {
+      console.log(`      ${colors.dim('actual:')}   ${issue.actual}`);
+    }
+  }
+}
+
+/**
+ * Display operations refused by import validation, one per line with the reason
+ */
+export function displayRejectedOperations(rejected: RejectedOperation[]): void {
+  if (rejected.length === 0) {
+    return;
+  }
+
+  console.log();
+  console.log(`  ${colors.error('✖')} ${colors.bold('Unsafe Operations')} ${colors.dim(`(${rejected.length})`)}`);
+  console.log();
+
+  for (const rejection of rejected) {
+    console.log(`    ${colors.error('•')} ${JSON.stringify(rejection.path)} ${colors.warning(rejection.reason)}`);
+  }
+}
@@ -0,0 +1,72 @@
+import { getErrorCode } from '../utils/errors.js';
+import { logger } from './logger.js';
+
+let jsonMode = false;
+
+/** Original stdout writer, kept for the result object */
+const writeStdout = process.stdout.write.bind(process.stdout);
+
+/**
+ * Switch to JSON output. All decorative output goes to stdout, so stdout is
+ * silenced and only the result object is written to it.
+ */
+export function setJsonMode(enabled: boolean): void {
+  jsonMode = enabled;
+  process.stdout.write = enabled ? ((() => true) as typeof process.stdout.write) : writeStdout;
+}
+
+/**
+ * Send decorative output to stderr so stdout only carries data written with
+ * `writeData`. In JSON mode stdout stays silenced.
+ */
+export function setStderrMode(): void {
+  if (!jsonMode) {
+    process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+  }
+}
+
+/**
+ * Write command data, such as armored text, to stdout. In JSON mode it is
+ * part of the result object instead.
+ */
+export function writeData(data: string): void {
+  if (!jsonMode) {
+    writeStdout(data);
+  }
+}
+
+/**
+ * Check if results are printed as JSON
+ */
+export function isJsonMode(): boolean {
+  return jsonMode;
+}
+
+/**
+ * Print the result of a command in JSON mode
+ */
+export function emitResult(result: unknown): void {
+  if (jsonMode) {
+    emitJson({ ok: true, result: result ?? null });
+  }
+}
+
+/**
+ * Report a failed command: a JSON error object in JSON mode, else an error line
+ */
+export function reportError(error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (jsonMode) {
+    emitJson({ ok: false, error: { code: getErrorCode(error), message } });
+  } else {
+    logger.error(message);
+  }
+}
+
+/**
+ * Write a value to stdout as JSON
+ */
+function emitJson(value: unknown): void {
+  writeStdout(`${JSON.stringify(value, null, 2)}\n`);
+}
@@ -1,7 +1,11 @@
+import { ProgressEvent } from '../types/index.js';
 import { colors, symbols } from './theme.js';
 
 const PROGRESS_BAR_WIDTH = 25;
 
+/** Minimum time between redraws of byte-level progress, in ms */
+const RENDER_INTERVAL = 100;
+
 /**
  * Format bytes to human-readable string
  */
@@ -47,7 +51,8 @@ export function createDetailedProgressBar(options: {
   totalSize?: number;
 }): string {
   const { current, total, currentFile, processedSize, totalSize } = options;
-  const percentage = total > 0 ? current / total : 0;
+  const bySize = processedSize !== undefined && totalSize !== undefined && totalSize > 0;
+  const percentage = bySize ? Math.min(processedSize / totalSize, 1) : total > 0 ? current / total : 0;
   const filled = Math.round(PROGRESS_BAR_WIDTH * percentage);
   const empty = PROGRESS_BAR_WIDTH - filled;
 
@@ -69,9 +74,9 @@ export function createDetailedProgressBar(options: {
   parts.push(colors.dim(`${current}/${total}`));
 
   // Size info
-  if (processedSize !== undefined && totalSize !== undefined && totalSize > 0) {
+  if (bySize) {
     parts.push(colors.dim('│'));
-    parts.push(colors.dim(`${formatBytes(processedSize)}`));
+    parts.push(colors.dim(`${formatBytes(processedSize)} / ${formatBytes(totalSize)}`));
   }
 
   return parts.join(' ');
@@ -218,6 +223,8 @@ export class DetailedProgressTracker {
   private totalSize: number;
   private currentFile: string = '';
   private startTime: number;
+  private lastRender: number = 0;
+  private reportedBytes: number = 0;
   private label: string;
 
   constructor(options: { total: number; totalSize?: number; label?: string }) {
@@ -237,6 +244,36 @@ export class DetailedProgressTracker {
     this.render();
   }
 
+  /**
+   * Add bytes processed within the current file; redrawn at most every
+   * RENDER_INTERVAL ms as this is called for every chunk read
+   */
+  advance(bytes: number, file: string): void {
+    this.processedSize += bytes;
+    this.currentFile = file;
+
+    if (Date.now() - this.lastRender >= RENDER_INTERVAL) {
+      this.render();
+    }
+  }
+
+  /**
+   * Follow a progress event of an API call: byte counts advance the bar by
+   * the bytes read since the last event, item counts move it to that item
+   */
+  report(event: ProgressEvent): void {
+    this.total = event.total ?? this.total;
+    this.totalSize = event.totalBytes ?? this.totalSize;
+
+    if (event.processedBytes !== undefined) {
+      this.advance(event.processedBytes - this.reportedBytes, event.item ?? this.currentFile);
+      this.reportedBytes = event.processedBytes;
+    }
+    if (event.current !== undefined) {
+      this.update(event.current, event.item);
+    }
+  }
+
   /**
    * Update progress
    */
@@ -252,6 +289,7 @@ export class DetailedProgressTracker {
    * Render detailed progress
    */
   private render(): void {
+    this.lastRender = Date.now();
     showDetailedProgress({
       current: this.current,
       total: this.total,
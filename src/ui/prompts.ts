@@ -1,33 +1,64 @@
 import inquirer from 'inquirer';
 import { colors } from './theme.js';
-import { DetectedChange, FileOperation, ExportStats } from '../types/index.js';
+import { DetectedChange, FileOperation, ExportStats, BackupInfo, ConflictResolution } from '../types/index.js';
 import { displayCompactStats } from './table.js';
+import { formatBackupTimestamp, getBackupStatsString } from './backups.js';
+import { stopSpinner } from './spinner.js';
+import { SyncKitError } from '../utils/errors.js';
+
+let interactive = true;
+
+/**
+ * Allow or refuse prompts; when refused, answers must come from flags
+ */
+export function setInteractive(enabled: boolean): void {
+  interactive = enabled;
+}
 
 /**
- * Prompt for export mode selection
+ * Check if prompts can be shown
+ */
+export function isInteractive(): boolean {
+  return interactive;
+}
+
+/**
+ * Prompt for export mode selection. The full snapshot is only scanned, through
+ * `fullStats`, once chosen; its file count is then confirmed
  */
 export async function promptExportMode(
   changesStats: ExportStats,
-  fullStats: ExportStats
+  fullStats: () => Promise<ExportStats>,
+  defaultMode: 'changes' | 'full' = 'changes'
 ): Promise<'changes' | 'full' | 'custom'> {
+  requireTerminal('Select export mode');
+
   const changesLabel = `Changes only (${displayCompactStats(changesStats)})`;
-  const fullLabel = `Full snapshot (${fullStats.added} files)`;
 
-  const { mode } = await inquirer.prompt([
-    {
-      type: 'list',
-      name: 'mode',
-      message: 'Select export mode:',
-      choices: [
-        { name: changesLabel, value: 'changes' },
-        { name: fullLabel, value: 'full' },
-        { name: 'Custom selection...', value: 'custom' },
-      ],
-      default: 'changes',
-    },
-  ]);
+  for (;;) {
+    const { mode } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'mode',
+        message: 'Select export mode:',
+        choices: [
+          { name: changesLabel, value: 'changes' },
+          { name: 'Full snapshot', value: 'full' },
+          { name: 'Custom selection...', value: 'custom' },
+        ],
+        default: defaultMode,
+      },
+    ]);
+
+    if (mode !== 'full') {
+      return mode;
+    }
 
-  return mode;
+    const stats = await fullStats();
+    if (await promptConfirm(`Export full snapshot (${stats.added} files)?`, true)) {
+      return mode;
+    }
+  }
 }
 
 /**
@@ -36,6 +67,8 @@ export async function promptExportMode(
 export async function promptFileSelection(
   changes: DetectedChange[]
 ): Promise<DetectedChange[]> {
+  requireTerminal('Select files to include');
+
   const choices = changes.map((change) => ({
     name: formatChangeForSelection(change),
     value: change,
@@ -62,6 +95,8 @@ export async function promptConfirm(
   message: string,
   defaultValue: boolean = true
 ): Promise<boolean> {
+  requireTerminal(message);
+
   const { confirmed } = await inquirer.prompt([
     {
       type: 'confirm',
@@ -79,8 +114,12 @@ export async function promptConfirm(
  */
 export async function promptConflictResolution(
   path: string,
-  reason: string
-): Promise<'overwrite' | 'skip' | 'keep'> {
+  reason: string,
+  canMerge: boolean = false,
+  canOverwrite: boolean = true
+): Promise<ConflictResolution> {
+  requireTerminal(`Resolve conflict in ${path}`);
+
   console.log();
   console.log(`  ${colors.warning('⚠')} Conflict: ${colors.path(path)}`);
   console.log(`    ${colors.dim(reason)}`);
@@ -92,7 +131,8 @@ export async function promptConflictResolution(
       name: 'action',
       message: 'How to resolve?',
       choices: [
-        { name: 'Overwrite with archive version', value: 'overwrite' },
+        ...(canMerge ? [{ name: 'Merge with conflict markers', value: 'merge' }] : []),
+        ...(canOverwrite ? [{ name: 'Overwrite with archive version', value: 'overwrite' }] : []),
         { name: 'Keep local version', value: 'keep' },
         { name: 'Skip this file', value: 'skip' },
       ],
@@ -102,10 +142,34 @@ export async function promptConflictResolution(
   return action;
 }
 
+/**
+ * Prompt for backup selection
+ */
+export async function promptBackupSelection(backups: BackupInfo[]): Promise<BackupInfo> {
+  requireTerminal('Select backup to restore');
+
+  const { backup } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'backup',
+      message: 'Select backup to restore:',
+      choices: backups.map((b) => ({
+        name: `${formatBackupTimestamp(b.timestamp)}  ${getBackupStatsString(b)}`,
+        value: b,
+      })),
+      pageSize: 15,
+    },
+  ]);
+
+  return backup;
+}
+
 /**
  * Prompt for message input
  */
 export async function promptMessage(defaultMessage?: string): Promise<string> {
+  requireTerminal('Add a message');
+
   const { message } = await inquirer.prompt([
     {
       type: 'input',
@@ -118,10 +182,58 @@ export async function promptMessage(defaultMessage?: string): Promise<string> {
   return message.trim();
 }
 
+/**
+ * Prompt for an archive passphrase, optionally asking twice
+ */
+export async function promptPassphrase(confirm: boolean = false): Promise<string> {
+  requireTerminal('Passphrase (set SYNC_KIT_PASSPHRASE instead)');
+
+  const { passphrase } = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      message: 'Passphrase:',
+      mask: '*',
+      validate: (value: string) => value.length > 0 || 'Passphrase cannot be empty',
+    },
+  ]);
+
+  if (confirm) {
+    const { repeated } = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'repeated',
+        message: 'Repeat passphrase:',
+        mask: '*',
+      },
+    ]);
+
+    if (repeated !== passphrase) {
+      throw new SyncKitError('USAGE', 'Passphrases do not match');
+    }
+  }
+
+  return passphrase;
+}
+
+/**
+ * Get the archive passphrase from SYNC_KIT_PASSPHRASE or prompt for it
+ */
+export async function getPassphrase(confirm: boolean = false): Promise<string> {
+  if (process.env.SYNC_KIT_PASSPHRASE) {
+    return process.env.SYNC_KIT_PASSPHRASE;
+  }
+
+  stopSpinner();
+  return promptPassphrase(confirm);
+}
+
 /**
  * Prompt for output path
  */
 export async function promptOutputPath(defaultPath: string): Promise<string> {
+  requireTerminal('Output path');
+
   const { path } = await inquirer.prompt([
     {
       type: 'input',
@@ -138,6 +250,8 @@ export async function promptOutputPath(defaultPath: string): Promise<string> {
  * Prompt for target directory
  */
 export async function promptTargetDirectory(defaultDir: string): Promise<string> {
+  requireTerminal('Target directory');
+
   const { dir } = await inquirer.prompt([
     {
       type: 'input',
@@ -150,6 +264,15 @@ export async function promptTargetDirectory(defaultDir: string): Promise<string>
   return dir;
 }
 
+/**
+ * Refuse to prompt in non-interactive mode
+ */
+function requireTerminal(question: string): void {
+  if (!interactive) {
+    throw new SyncKitError('INTERACTION_REQUIRED', `Cannot prompt in non-interactive mode: ${question}`);
+  }
+}
+
 /**
  * Format change for selection display
  */
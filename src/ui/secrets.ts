@@ -0,0 +1,25 @@
+import { colors } from './theme.js';
+import { SecretFinding } from '../types/index.js';
+
+/**
+ * Display possible secrets as file:line with the rule and redacted match
+ */
+export function displaySecretFindings(findings: SecretFinding[]): void {
+  if (findings.length === 0) {
+    return;
+  }
+
+  const files = new Set(findings.map((finding) => finding.file)).size;
+
+  console.log();
+  console.log(
+    `  ${colors.error('✖')} ${colors.bold('Possible Secrets')} ${colors.dim(`(${findings.length} in ${files} file(s))`)}`
+  );
+  console.log();
+
+  for (const finding of findings) {
+    console.log(
+      `    ${colors.error('•')} ${finding.file}:${finding.line} ${colors.warning(finding.rule)} ${colors.dim(finding.match)}`
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import ora, { Ora } from 'ora';
 import { colors } from './theme.js';
+import { isJsonMode } from './output.js';
 
 let currentSpinner: Ora | null = null;
 
@@ -15,6 +16,7 @@ export function startSpinner(message: string): Ora {
     text: message,
     color: 'cyan',
     indent: 2,
+    isSilent: isJsonMode(),
   }).start();
 
   return currentSpinner;
@@ -1,6 +1,7 @@
 import Table from 'cli-table3';
 import { DetectedChange, FileOperation, ExportStats } from '../types/index.js';
 import { colors, symbols, getOperationSymbol, formatSize } from './theme.js';
+import { describeBinary } from '../utils/encoding.js';
 
 /**
  * Display changes in a formatted table
@@ -50,6 +51,17 @@ export function displayOperationsTable(operations: FileOperation[]): void {
       path = op.path;
     }
 
+    if (op.encoding === 'base64') {
+      path += ` ${colors.dim(`(${describeBinary(op.size ?? 0)})`)}`;
+    }
+    if (op.type === 'chmod') {
+      path += ` ${colors.dim(`(mode ${op.mode})`)}`;
+    } else if (op.mode === '120000') {
+      path += ` ${colors.dim('(symlink)')}`;
+    } else if (op.mode === '100755') {
+      path += ` ${colors.dim('(executable)')}`;
+    }
+
     console.log(`  ${colors.dim(symbols.vertical)}  ${symbol} ${colors.dim(label)} ${path}`);
   }
 
@@ -1,4 +1,5 @@
 import chalk from 'chalk';
+import { OperationType } from '../types/index.js';
 
 /**
  * Color theme for the CLI
@@ -39,6 +40,7 @@ export const symbols = {
   modify: '●',
   delete: '✖',
   rename: '→',
+  chmod: '◇',
 
   // Status
   success: '✔',
@@ -79,7 +81,7 @@ export const symbols = {
 /**
  * Get colored symbol for operation type
  */
-export function getOperationSymbol(type: 'add' | 'modify' | 'delete' | 'rename'): string {
+export function getOperationSymbol(type: OperationType): string {
   switch (type) {
     case 'add':
       return colors.added(symbols.add);
@@ -89,13 +91,15 @@ export function getOperationSymbol(type: 'add' | 'modify' | 'delete' | 'rename')
       return colors.deleted(symbols.delete);
     case 'rename':
       return colors.renamed(symbols.rename);
+    case 'chmod':
+      return colors.modified(symbols.chmod);
   }
 }
 
 /**
  * Get colored label for operation type
  */
-export function getOperationLabel(type: 'add' | 'modify' | 'delete' | 'rename'): string {
+export function getOperationLabel(type: OperationType): string {
   switch (type) {
     case 'add':
       return colors.added('added');
@@ -105,6 +109,8 @@ export function getOperationLabel(type: 'add' | 'modify' | 'delete' | 'rename'):
       return colors.deleted('deleted');
     case 'rename':
       return colors.renamed('renamed');
+    case 'chmod':
+      return colors.modified('mode changed');
   }
 }
 
@@ -1,3 +1,4 @@
+import { OperationType } from '../types/index.js';
 import { colors, symbols, getFileIcon, getFolderIcon, getOperationSymbol, formatSize } from './theme.js';
 
 /**
@@ -8,7 +9,7 @@ interface TreeNode {
   path: string;
   isDirectory: boolean;
   children: Map<string, TreeNode>;
-  operation?: 'add' | 'modify' | 'delete' | 'rename';
+  operation?: OperationType;
   size?: number;
   from?: string; // for renames
 }
@@ -18,7 +19,7 @@ interface TreeNode {
  */
 export interface FileEntry {
   path: string;
-  type: 'add' | 'modify' | 'delete' | 'rename';
+  type: OperationType;
   size?: number;
   from?: string;
 }
@@ -245,7 +246,7 @@ export function displayCompactTree(files: FileEntry[], options: { indent?: strin
  * Get stats string for a group of files
  */
 function getGroupStats(files: FileEntry[]): string {
-  const counts = { add: 0, modify: 0, delete: 0, rename: 0 };
+  const counts = { add: 0, modify: 0, delete: 0, rename: 0, chmod: 0 };
 
   for (const file of files) {
     counts[file.type]++;
@@ -256,6 +257,7 @@ function getGroupStats(files: FileEntry[]): string {
   if (counts.modify) parts.push(colors.modified(`~${counts.modify}`));
   if (counts.delete) parts.push(colors.deleted(`-${counts.delete}`));
   if (counts.rename) parts.push(colors.renamed(`→${counts.rename}`));
+  if (counts.chmod) parts.push(colors.modified(`${symbols.chmod}${counts.chmod}`));
 
   return parts.join(' ');
 }
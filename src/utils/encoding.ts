@@ -0,0 +1,79 @@
+import { isUtf8 } from 'node:buffer';
+import { PassThrough, Transform } from 'node:stream';
+import { FileEncoding } from '../types/index.js';
+import { isBinaryBuffer } from './fs.js';
+
+/**
+ * Line width of base64 content stored in archives
+ */
+const BASE64_LINE_WIDTH = 76;
+
+/**
+ * Detect how file content must be stored to survive text-only channels
+ */
+export function detectEncoding(content: Buffer): FileEncoding {
+  return isBinaryBuffer(content) || !isUtf8(content) ? 'base64' : 'utf8';
+}
+
+/**
+ * Encode file content for storage in the archive
+ */
+export function encodeContent(content: Buffer, encoding: FileEncoding = 'utf8'): Buffer | string {
+  if (encoding !== 'base64') {
+    return content;
+  }
+
+  const base64 = content.toString('base64');
+  const lines: string[] = [];
+  for (let i = 0; i < base64.length; i += BASE64_LINE_WIDTH) {
+    lines.push(base64.slice(i, i + BASE64_LINE_WIDTH));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Decode file content stored in the archive (line breaks in base64 are ignored)
+ */
+export function decodeContent(stored: Buffer, encoding: FileEncoding = 'utf8'): Buffer {
+  return encoding === 'base64' ? Buffer.from(stored.toString('ascii'), 'base64') : stored;
+}
+
+/**
+ * Decode file content stored in the archive as it streams; base64 is
+ * decoded in groups of four characters, whatever the line breaks
+ */
+export function createDecodeStream(encoding: FileEncoding = 'utf8'): Transform {
+  if (encoding !== 'base64') {
+    return new PassThrough();
+  }
+
+  let pending = '';
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      pending += chunk.toString('ascii').replace(/\s+/g, '');
+      const usable = pending.length - (pending.length % 4);
+      const decoded = Buffer.from(pending.slice(0, usable), 'base64');
+      pending = pending.slice(usable);
+      callback(null, decoded);
+    },
+    flush(callback) {
+      callback(null, pending ? Buffer.from(pending, 'base64') : undefined);
+    },
+  });
+}
+
+/**
+ * Placeholder shown instead of binary content
+ */
+export function describeBinary(size: number): string {
+  return `binary file, ${size} bytes`;
+}
+
+/**
+ * Get content as text for display, with a placeholder for binary content
+ */
+export function toDisplayText(content: Buffer): string {
+  return detectEncoding(content) === 'base64' ? `(${describeBinary(content.length)})` : content.toString('utf-8');
+}
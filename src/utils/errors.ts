@@ -0,0 +1,63 @@
+import { ErrorCode } from '../types/index.js';
+
+/**
+ * Process exit codes
+ */
+export const EXIT_CODES = {
+  success: 0,
+  /** Any failure without a more specific code */
+  error: 1,
+  /** Invalid arguments, or a prompt needed in non-interactive mode */
+  usage: 2,
+  /** No files to export or operations to apply */
+  nothingToDo: 3,
+  /** Import stopped on conflicts (--on-conflict=fail) */
+  conflicts: 4,
+  /** Archive or written files do not match their checksums or signature */
+  integrity: 5,
+  /** Import applied, but some operations were skipped, or rolled back midway */
+  partial: 6,
+} as const;
+
+/**
+ * Error with a stable code that scripts can rely on
+ */
+export class SyncKitError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'SyncKitError';
+    this.code = code;
+  }
+}
+
+/**
+ * Get the code of an error; anything not raised as a SyncKitError is unexpected
+ */
+export function getErrorCode(error: unknown): ErrorCode {
+  return error instanceof SyncKitError ? error.code : 'UNEXPECTED_ERROR';
+}
+
+/**
+ * Get the process exit code for an error
+ */
+export function getExitCode(error: unknown): number {
+  switch (getErrorCode(error)) {
+    case 'USAGE':
+    case 'INTERACTION_REQUIRED':
+      return EXIT_CODES.usage;
+    case 'NOTHING_TO_EXPORT':
+      return EXIT_CODES.nothingToDo;
+    case 'CONFLICTS':
+      return EXIT_CODES.conflicts;
+    case 'ARCHIVE_INCOMPLETE':
+    case 'ARCHIVE_CORRUPTED':
+    case 'SIGNATURE_INVALID':
+      return EXIT_CODES.integrity;
+    case 'IMPORT_ROLLED_BACK':
+      return EXIT_CODES.partial;
+    default:
+      return EXIT_CODES.error;
+  }
+}
@@ -1,4 +1,6 @@
 import picomatch from 'picomatch';
+import { PathExplanation } from '../types/index.js';
+import { SyncIgnore } from './syncignore.js';
 
 /**
  * Default patterns to always exclude
@@ -27,19 +29,22 @@ export const DEFAULT_EXCLUDES = [
 ];
 
 /**
- * Create a file filter function based on include/exclude patterns
+ * Create a file filter function based on include/exclude patterns;
+ * `defaults` and .syncignore rules exclude in addition to `exclude`
  */
 export function createFileFilter(
   include?: string[],
-  exclude?: string[]
+  exclude?: string[],
+  defaults: string[] = DEFAULT_EXCLUDES,
+  syncIgnore?: SyncIgnore
 ): (path: string) => boolean {
-  const excludePatterns = [...DEFAULT_EXCLUDES, ...(exclude || [])];
+  const excludePatterns = [...defaults, ...(exclude || [])];
   const excludeMatcher = picomatch(excludePatterns);
   const includeMatcher = include?.length ? picomatch(include) : null;
 
   return (filePath: string) => {
     // First check excludes
-    if (excludeMatcher(filePath)) {
+    if (excludeMatcher(filePath) || syncIgnore?.isIgnored(filePath)) {
       return false;
     }
     // Then check includes if specified
@@ -56,8 +61,50 @@ export function createFileFilter(
 export function filterFiles(
   files: string[],
   include?: string[],
-  exclude?: string[]
+  exclude?: string[],
+  defaults: string[] = DEFAULT_EXCLUDES,
+  syncIgnore?: SyncIgnore
 ): string[] {
-  const filter = createFileFilter(include, exclude);
+  const filter = createFileFilter(include, exclude, defaults, syncIgnore);
   return files.filter(filter);
 }
+
+/**
+ * Explain whether a path passes the filters and which pattern or rule decides it,
+ * checked in the same order as createFileFilter
+ */
+export function explainPath(
+  filePath: string,
+  include?: string[],
+  exclude?: string[],
+  defaults: string[] = DEFAULT_EXCLUDES,
+  syncIgnore?: SyncIgnore
+): PathExplanation {
+  const excludedBy = (patterns: string[]) => patterns.find((pattern) => picomatch(pattern)(filePath));
+
+  const defaultPattern = excludedBy(defaults);
+  if (defaultPattern) {
+    return { path: filePath, included: false, reason: `default exclude ${defaultPattern}` };
+  }
+
+  const excludePattern = excludedBy(exclude || []);
+  if (excludePattern) {
+    return { path: filePath, included: false, reason: `--exclude ${excludePattern}` };
+  }
+
+  const rule = syncIgnore?.explain(filePath);
+  if (rule && !rule.negated) {
+    const via = rule.matched !== filePath ? ` via directory ${rule.matched}/` : '';
+    return { path: filePath, included: false, reason: `${rule.file}:${rule.line} ${rule.pattern}${via}` };
+  }
+
+  if (include?.length && !picomatch(include)(filePath)) {
+    return { path: filePath, included: false, reason: 'no --include pattern matches' };
+  }
+
+  return {
+    path: filePath,
+    included: true,
+    reason: rule ? `re-included by ${rule.file}:${rule.line} ${rule.pattern}` : 'no rule excludes it',
+  };
+}
@@ -1,7 +1,34 @@
 import { createHash } from 'node:crypto';
-import { readFile, stat, mkdir, rm, cp, readdir, lstat } from 'node:fs/promises';
-import { existsSync, statSync } from 'node:fs';
-import { dirname } from 'node:path';
+import {
+  readFile,
+  writeFile,
+  stat,
+  mkdir,
+  mkdtemp,
+  rm,
+  cp,
+  readdir,
+  lstat,
+  readlink,
+  symlink,
+  chmod,
+} from 'node:fs/promises';
+import { createReadStream, createWriteStream, existsSync, lstatSync, rmSync, statSync, Stats } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { FileMode } from '../types/index.js';
+
+/** Temporary directories still to be removed when the process exits */
+const tempDirs = new Set<string>();
+
+// One listener for the whole process, however many directories are created
+process.on('exit', () => {
+  for (const dir of tempDirs) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
 
 /**
  * Check if path is a file (not directory)
@@ -15,15 +42,16 @@ export function isFile(filePath: string): boolean {
 }
 
 /**
- * Calculate SHA-256 hash of file content
+ * Calculate SHA-256 hash of file content (symlinks hash their target path)
  */
 export async function hashFile(filePath: string): Promise<string> {
-  if (!isFile(filePath)) {
+  if (!isFile(filePath) && !isSymlink(filePath)) {
     throw new Error(`Not a file: ${filePath}`);
   }
-  const content = await readFile(filePath);
-  const hash = createHash('sha256').update(content).digest('hex');
-  return `sha256:${hash}`;
+  if (isSymlink(filePath)) {
+    return hashBuffer(await readFileOrLink(filePath));
+  }
+  return (await hashStream(createReadStream(filePath))).hash;
 }
 
 /**
@@ -34,6 +62,33 @@ export function hashBuffer(buffer: Buffer): string {
   return `sha256:${hash}`;
 }
 
+/**
+ * Calculate SHA-256 hash and size of streamed content
+ */
+export async function hashStream(
+  stream: Readable,
+  onData?: (bytes: number) => void
+): Promise<{ hash: string; size: number }> {
+  const hash = createHash('sha256');
+  let size = 0;
+
+  for await (const chunk of stream) {
+    hash.update(chunk);
+    size += chunk.length;
+    onData?.(chunk.length);
+  }
+
+  return { hash: `sha256:${hash.digest('hex')}`, size };
+}
+
+/**
+ * Check if buffer looks like binary content (contains NUL bytes)
+ */
+export function isBinaryBuffer(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 8000);
+  return sample.includes(0);
+}
+
 /**
  * Get file size in bytes
  */
@@ -43,10 +98,115 @@ export async function getFileSize(filePath: string): Promise<number> {
 }
 
 /**
- * Check if a file exists
+ * Check if a file exists (symlinks count even when dangling)
  */
 export function fileExists(filePath: string): boolean {
-  return existsSync(filePath);
+  try {
+    lstatSync(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if path is a symlink
+ */
+export function isSymlink(filePath: string): boolean {
+  try {
+    return lstatSync(filePath).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the git file mode of a path (null if it is neither a file nor a symlink)
+ */
+export async function getFileMode(filePath: string): Promise<FileMode | null> {
+  try {
+    return getStatsMode(await lstat(filePath));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the git file mode of lstat results (null for directories and others)
+ */
+export function getStatsMode(stats: Stats): FileMode | null {
+  if (stats.isSymbolicLink()) return '120000';
+  if (!stats.isFile()) return null;
+  return stats.mode & 0o111 ? '100755' : '100644';
+}
+
+/**
+ * Read file content; symlinks yield their target path, like git blobs
+ */
+export async function readFileOrLink(filePath: string): Promise<Buffer> {
+  if (isSymlink(filePath)) {
+    return Buffer.from(await readlink(filePath), 'utf-8');
+  }
+  return readFile(filePath);
+}
+
+/**
+ * Write content with a git file mode, creating a symlink for 120000.
+ * Existing symlinks are replaced rather than written through. Without a mode
+ * new files are created as 0644 and existing files keep their permissions.
+ */
+export async function writeFileWithMode(
+  filePath: string,
+  content: Buffer,
+  mode?: FileMode
+): Promise<void> {
+  if (isSymlink(filePath) || (mode === '120000' && fileExists(filePath))) {
+    await rm(filePath, { recursive: true, force: true });
+  }
+
+  if (mode === '120000') {
+    await symlink(content.toString('utf-8'), filePath);
+    return;
+  }
+
+  await writeFile(filePath, content, { mode: 0o644 });
+  if (mode) {
+    await setFileMode(filePath, mode);
+  }
+}
+
+/**
+ * Write streamed content with a git file mode, like writeFileWithMode;
+ * only symlink targets are buffered
+ */
+export async function writeStreamWithMode(
+  filePath: string,
+  stream: Readable,
+  mode?: FileMode
+): Promise<void> {
+  if (mode === '120000') {
+    await writeFileWithMode(filePath, await readStream(stream), mode);
+    return;
+  }
+
+  if (isSymlink(filePath)) {
+    await rm(filePath, { force: true });
+  }
+
+  await pipeline(stream, createWriteStream(filePath, { mode: 0o644 }));
+  if (mode) {
+    await setFileMode(filePath, mode);
+  }
+}
+
+/**
+ * Set the executable bit of a file according to a git file mode
+ */
+export async function setFileMode(filePath: string, mode: FileMode): Promise<void> {
+  if (mode === '120000') {
+    throw new Error(`Cannot change mode of ${filePath} to a symlink`);
+  }
+  await chmod(filePath, mode === '100755' ? 0o755 : 0o644);
 }
 
 /**
@@ -70,17 +230,20 @@ export async function ensureParentDir(filePath: string): Promise<void> {
  * Remove a file or directory
  */
 export async function remove(path: string): Promise<void> {
-  if (existsSync(path)) {
+  if (fileExists(path)) {
     await rm(path, { recursive: true, force: true });
   }
 }
 
 /**
- * Copy file or directory
+ * Copy file or directory, keeping symlinks as links
  */
 export async function copy(src: string, dest: string): Promise<void> {
   await ensureParentDir(dest);
-  await cp(src, dest, { recursive: true });
+  if (isSymlink(src) || isSymlink(dest)) {
+    await remove(dest);
+  }
+  await cp(src, dest, { recursive: true, verbatimSymlinks: true });
 }
 
 /**
@@ -97,6 +260,42 @@ export async function readFileBuffer(filePath: string): Promise<Buffer> {
   return readFile(filePath);
 }
 
+/**
+ * Read a stream to its end
+ */
+export async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Save all of stdin to a file
+ */
+export async function saveStdin(filePath: string): Promise<void> {
+  await pipeline(process.stdin, createWriteStream(filePath));
+}
+
+/**
+ * Create a temporary directory, removed when the process exits unless
+ * removed earlier with removeTempDir
+ */
+export async function createTempDir(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'sync-kit-'));
+  tempDirs.add(dir);
+  return dir;
+}
+
+/**
+ * Remove a temporary directory created with createTempDir
+ */
+export async function removeTempDir(dir: string): Promise<void> {
+  tempDirs.delete(dir);
+  await remove(dir);
+}
+
 /**
  * List all files in directory recursively
  */
@@ -111,7 +310,7 @@ export async function listFilesRecursive(dirPath: string): Promise<string[]> {
 
       if (entry.isDirectory()) {
         await walk(`${dir}/${entry.name}`, relativePath);
-      } else if (entry.isFile()) {
+      } else if (entry.isFile() || entry.isSymbolicLink()) {
         files.push(relativePath);
       }
     }
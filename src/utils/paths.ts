@@ -1,4 +1,6 @@
-import { basename, dirname, join, relative, resolve } from 'node:path';
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import { homedir } from 'node:os';
+import { SyncKitError } from './errors.js';
 
 /**
  * Convert a file path to archive path (.txt extension)
@@ -31,6 +33,41 @@ export function getArchiveFilePath(filePath: string): string {
   return join(getFilesDir(), toArchivePath(filePath));
 }
 
+/**
+ * Get the base versions directory path in archive
+ */
+export function getBaseDir(): string {
+  return 'base';
+}
+
+/**
+ * Get full archive path for the base version of a file
+ */
+export function getArchiveBasePath(filePath: string): string {
+  return join(getBaseDir(), toArchivePath(filePath));
+}
+
+/**
+ * Get the patches directory path in archive
+ */
+export function getPatchesDir(): string {
+  return 'patches';
+}
+
+/**
+ * Get full archive path for the patch of a file
+ */
+export function getArchivePatchPath(filePath: string): string {
+  return join(getPatchesDir(), toArchivePath(filePath));
+}
+
+/**
+ * Get full archive path for a file as of a packed commit
+ */
+export function getArchiveCommitFilePath(commit: string, filePath: string): string {
+  return join('commits', commit, toArchivePath(filePath));
+}
+
 /**
  * Generate timestamp string for archive names
  */
@@ -55,6 +92,13 @@ export function generateArchiveName(mode: 'changes' | 'full' = 'changes'): strin
   return `${prefix}_${timestamp}.zip`;
 }
 
+/**
+ * Get the per-user sync-kit directory (keys, settings)
+ */
+export function getUserConfigDir(): string {
+  return join(homedir(), '.config', 'sync-kit');
+}
+
 /**
  * Get repository name from path
  */
@@ -99,12 +143,28 @@ export function resolveSafePath(basePath: string, relativePath: string): string
   const resolvedFull = resolve(basePath, relativePath);
 
   if (!resolvedFull.startsWith(resolvedBase + '/') && resolvedFull !== resolvedBase) {
-    throw new Error(`Path traversal detected: "${relativePath}" escapes base directory`);
+    throw new SyncKitError('UNSAFE_ARCHIVE', `Path traversal detected: "${relativePath}" escapes base directory`);
   }
 
   return resolvedFull;
 }
 
+/**
+ * Validate that a symlink at `linkPath` pointing to `target` stays inside the base directory.
+ * Returns the resolved absolute target.
+ */
+export function resolveSafeLinkTarget(basePath: string, linkPath: string, target: string): string {
+  if (isAbsolute(target)) {
+    throw new SyncKitError('UNSAFE_ARCHIVE', `Symlink "${linkPath}" has an absolute target: "${target}"`);
+  }
+
+  try {
+    return resolveSafePath(basePath, join(dirname(linkPath), target));
+  } catch {
+    throw new SyncKitError('UNSAFE_ARCHIVE', `Symlink "${linkPath}" points outside the target directory: "${target}"`);
+  }
+}
+
 /**
  * Check if path is safe without throwing
  */
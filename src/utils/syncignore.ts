@@ -0,0 +1,154 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import picomatch from 'picomatch';
+import { IgnoreMatch, IgnoreRule } from '../types/index.js';
+import { fileExists } from './fs.js';
+
+/** Ignore file name, read from the repository root and any subdirectory */
+export const SYNCIGNORE_FILE = '.syncignore';
+
+/**
+ * Parsed rule with its matcher
+ */
+interface CompiledRule extends IgnoreRule {
+  dirOnly: boolean;
+  matches: (path: string) => boolean;
+}
+
+/**
+ * .syncignore rules of a repository, read lazily per directory
+ */
+export interface SyncIgnore {
+  /** Check if a path is excluded */
+  isIgnored(path: string): boolean;
+  /**
+   * Get the rule deciding a path, if any: an excluding rule (possibly matching
+   * a parent directory) or the negation re-including it
+   */
+  explain(path: string): IgnoreMatch | undefined;
+}
+
+/**
+ * Load .syncignore rules with gitignore semantics: `#` comments, `!` negation,
+ * trailing `/` for directories only, patterns with a `/` anchored to their
+ * file's directory and others matched at any depth. Deeper files and later
+ * lines take precedence, and nothing below an excluded directory can be
+ * re-included.
+ */
+export function createSyncIgnore(repoRoot: string): SyncIgnore {
+  const cache = new Map<string, CompiledRule[]>();
+
+  const getRules = (dir: string): CompiledRule[] => {
+    let rules = cache.get(dir);
+    if (!rules) {
+      rules = readRules(repoRoot, dir);
+      cache.set(dir, rules);
+    }
+    return rules;
+  };
+
+  const explain = (path: string): IgnoreMatch | undefined => {
+    const segments = path.split('/');
+
+    // Parent directories first: an excluded directory excludes everything in it
+    for (let i = 1; i <= segments.length; i++) {
+      const candidate = segments.slice(0, i).join('/');
+      const isDir = i < segments.length;
+      const rule = findLastMatch(segments.slice(0, i - 1), candidate, isDir, getRules);
+
+      if (rule && (!isDir || !rule.negated)) {
+        const { file, line, pattern, negated } = rule;
+        return { file, line, pattern, negated, matched: candidate };
+      }
+    }
+
+    return undefined;
+  };
+
+  return {
+    isIgnored: (path) => {
+      const rule = explain(path);
+      return !!rule && !rule.negated;
+    },
+    explain,
+  };
+}
+
+/**
+ * Find the last rule matching a path among the ignore files of its parent directories
+ */
+function findLastMatch(
+  parents: string[],
+  candidate: string,
+  isDir: boolean,
+  getRules: (dir: string) => CompiledRule[]
+): CompiledRule | undefined {
+  let match: CompiledRule | undefined;
+
+  for (let depth = 0; depth <= parents.length; depth++) {
+    const dir = parents.slice(0, depth).join('/');
+    const relative = dir ? candidate.slice(dir.length + 1) : candidate;
+
+    for (const rule of getRules(dir)) {
+      if ((!rule.dirOnly || isDir) && rule.matches(relative)) {
+        match = rule;
+      }
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Read and compile the rules of the ignore file in a directory
+ */
+function readRules(repoRoot: string, dir: string): CompiledRule[] {
+  const file = dir ? `${dir}/${SYNCIGNORE_FILE}` : SYNCIGNORE_FILE;
+  const path = join(repoRoot, file);
+
+  if (!fileExists(path)) {
+    return [];
+  }
+
+  const rules: CompiledRule[] = [];
+
+  for (const [i, line] of readFileSync(path, 'utf-8').split(/\r?\n/).entries()) {
+    const rule = parseRule(line);
+    if (rule) {
+      rules.push({ ...rule, file, line: i + 1 });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Parse one ignore file line, returning nothing for blanks and comments
+ */
+function parseRule(line: string): Pick<CompiledRule, 'pattern' | 'negated' | 'dirOnly' | 'matches'> | undefined {
+  // Trailing spaces are ignored unless escaped
+  const pattern = line.replace(/(?<!\\)\s+$/, '');
+
+  if (!pattern || pattern.startsWith('#')) {
+    return undefined;
+  }
+
+  const negated = pattern.startsWith('!');
+  let glob = negated ? pattern.slice(1) : pattern;
+
+  // Escaped leading ! and # are literal
+  glob = glob.replace(/^\\([!#])/, '$1').replace(/\\ /g, ' ');
+
+  const dirOnly = glob.endsWith('/');
+  glob = glob.replace(/\/+$/, '');
+
+  if (!glob) {
+    return undefined;
+  }
+
+  // A slash anywhere but the end anchors the pattern to the ignore file's directory
+  const anchored = glob.includes('/');
+  glob = anchored ? glob.replace(/^\//, '') : `**/${glob}`;
+
+  return { pattern, negated, dirOnly, matches: picomatch(glob, { dot: true }) };
+}
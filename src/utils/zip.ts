@@ -0,0 +1,367 @@
+import archiver from 'archiver';
+import { once } from 'node:events';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { open, FileHandle } from 'node:fs/promises';
+import { Readable, Transform } from 'node:stream';
+import { createInflateRaw } from 'node:zlib';
+import { ensureParentDir } from './fs.js';
+import { SyncKitError } from './errors.js';
+
+/** End of central directory record, and its zip64 counterparts */
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_ID = 0x0001;
+
+const EOCD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const ZIP64_LOCATOR_SIZE = 20;
+const CENTRAL_HEADER_SIZE = 46;
+const LOCAL_HEADER_SIZE = 30;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+const CRC_TABLE = createCrcTable();
+
+/**
+ * Content of an entry to write: in memory, or opened only once the entries
+ * before it are written
+ */
+export type ZipSource = Buffer | string | (() => Promise<Readable>);
+
+/**
+ * Entry of a zip file, as described by its central directory
+ */
+export interface ZipEntry {
+  name: string;
+  /** Uncompressed size in bytes */
+  size: number;
+  compressedSize: number;
+  crc32: number;
+  method: number;
+  flags: number;
+  /** Offset of the local header */
+  offset: number;
+  isDirectory: boolean;
+}
+
+/**
+ * Zip file read from disk entry by entry. Only the central directory is
+ * kept in memory; entry content is streamed and checked against its size
+ * and CRC while it is read.
+ */
+export class ZipReader {
+  readonly path: string;
+  private handle: FileHandle;
+  private entries: ZipEntry[];
+  private byName: Map<string, ZipEntry>;
+
+  constructor(path: string, handle: FileHandle, entries: ZipEntry[]) {
+    this.path = path;
+    this.handle = handle;
+    this.entries = entries;
+    this.byName = new Map(entries.map((entry) => [entry.name, entry]));
+  }
+
+  /**
+   * Get all entries in central directory order
+   */
+  getEntries(): ZipEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Get an entry by name
+   */
+  getEntry(name: string): ZipEntry | null {
+    return this.byName.get(name) ?? null;
+  }
+
+  /**
+   * Stream the uncompressed content of an entry. The stream fails with
+   * ARCHIVE_CORRUPTED when the content does not match the entry header.
+   */
+  async openStream(entry: ZipEntry): Promise<Readable> {
+    if (entry.flags & FLAG_ENCRYPTED) {
+      throw new SyncKitError('ARCHIVE_INVALID', `Entry ${entry.name} is encrypted with zip encryption`);
+    }
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED) {
+      throw new SyncKitError('ARCHIVE_INVALID', `Entry ${entry.name} uses unsupported compression ${entry.method}`);
+    }
+
+    const header = Buffer.alloc(LOCAL_HEADER_SIZE);
+    await this.handle.read(header, 0, LOCAL_HEADER_SIZE, entry.offset);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new SyncKitError('ARCHIVE_CORRUPTED', `Entry ${entry.name} is corrupted: local header not found`);
+    }
+
+    const start = entry.offset + LOCAL_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+    // Each stream has its own descriptor, so it can be destroyed without closing the reader
+    const raw = entry.compressedSize > 0
+      ? createReadStream(this.path, { start, end: start + entry.compressedSize - 1 })
+      : Readable.from([]);
+    const check = createEntryCheck(entry);
+
+    raw.on('error', (error: Error) => check.destroy(error));
+    check.on('close', () => raw.destroy());
+
+    if (entry.method === METHOD_DEFLATED) {
+      const inflate = createInflateRaw();
+      inflate.on('error', () => check.destroy(corrupted(entry, 'cannot be decompressed')));
+      raw.pipe(inflate).pipe(check);
+    } else {
+      raw.pipe(check);
+    }
+
+    return check;
+  }
+
+  /**
+   * Read the whole content of an entry; meant for small entries such as
+   * the manifest, patches and base versions
+   */
+  async read(entry: ZipEntry): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.openStream(entry)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Read an entry as UTF-8 text
+   */
+  async readText(entry: ZipEntry): Promise<string> {
+    return (await this.read(entry)).toString('utf-8');
+  }
+
+  /**
+   * Close the underlying file
+   */
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+}
+
+/**
+ * Open a zip file, reading its central directory (zip64 included)
+ */
+export async function openZip(path: string): Promise<ZipReader> {
+  const handle = await open(path, 'r');
+
+  try {
+    return new ZipReader(path, handle, await readCentralDirectory(handle));
+  } catch (error) {
+    await handle.close();
+    throw error;
+  }
+}
+
+/**
+ * Write a zip file from entries, in order.
+ * Entries named in `stored` are added without compression (already
+ * compressed or encrypted data); the rest use zlib `level`.
+ */
+export async function writeZip(
+  outputPath: string,
+  entries: Map<string, ZipSource>,
+  stored: Set<string> = new Set(),
+  level: number = 9
+): Promise<void> {
+  await ensureParentDir(outputPath);
+
+  const output = createWriteStream(outputPath);
+  const archive = archiver('zip', {
+    zlib: { level },
+  });
+  const closed = once(output, 'close');
+  const failed = once(archive, 'error').then(([error]) => Promise.reject(error));
+
+  archive.pipe(output);
+
+  await Promise.race([
+    (async () => {
+      for (const [name, content] of entries) {
+        if (typeof content === 'function') {
+          // One stream at a time keeps memory bounded
+          const written = once(archive, 'entry');
+          archive.append(await content(), { name, store: stored.has(name) });
+          await written;
+        } else {
+          archive.append(content, { name, store: stored.has(name) });
+        }
+      }
+
+      await archive.finalize();
+      await closed;
+    })(),
+    failed,
+  ]);
+}
+
+/**
+ * Locate and parse the central directory
+ */
+async function readCentralDirectory(handle: FileHandle): Promise<ZipEntry[]> {
+  const { size } = await handle.stat();
+  const tailSize = Math.min(size, EOCD_SIZE + MAX_COMMENT_SIZE);
+  const tail = Buffer.alloc(tailSize);
+  await handle.read(tail, 0, tailSize, size - tailSize);
+
+  let eocd = -1;
+  for (let i = tailSize - EOCD_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new SyncKitError('ARCHIVE_INVALID', 'Not a zip archive: end of central directory not found');
+  }
+
+  let count = tail.readUInt16LE(eocd + 10);
+  let directorySize = tail.readUInt32LE(eocd + 12);
+  let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+  // Archives over 4 GB or 65535 entries keep the real values in a zip64 record
+  const locator = eocd - ZIP64_LOCATOR_SIZE;
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_LOCATOR_SIGNATURE) {
+    const record = Buffer.alloc(56);
+    await handle.read(record, 0, 56, Number(tail.readBigUInt64LE(locator + 8)));
+    if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+      throw new SyncKitError('ARCHIVE_CORRUPTED', 'Zip archive is corrupted: zip64 record not found');
+    }
+    count = Number(record.readBigUInt64LE(32));
+    directorySize = Number(record.readBigUInt64LE(40));
+    directoryOffset = Number(record.readBigUInt64LE(48));
+  }
+
+  if (directoryOffset + directorySize > size) {
+    throw new SyncKitError('ARCHIVE_INCOMPLETE', 'Zip archive is truncated: central directory is missing');
+  }
+
+  const directory = Buffer.alloc(directorySize);
+  await handle.read(directory, 0, directorySize, directoryOffset);
+
+  const entries: ZipEntry[] = [];
+  let position = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (
+      position + CENTRAL_HEADER_SIZE > directorySize ||
+      directory.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE
+    ) {
+      throw new SyncKitError('ARCHIVE_CORRUPTED', 'Zip archive is corrupted: invalid central directory');
+    }
+
+    const nameLength = directory.readUInt16LE(position + 28);
+    const extraLength = directory.readUInt16LE(position + 30);
+    const commentLength = directory.readUInt16LE(position + 32);
+    const nameStart = position + CENTRAL_HEADER_SIZE;
+    const name = directory.toString('utf-8', nameStart, nameStart + nameLength);
+    const extra = directory.subarray(nameStart + nameLength, nameStart + nameLength + extraLength);
+
+    const entry: ZipEntry = {
+      name,
+      size: directory.readUInt32LE(position + 24),
+      compressedSize: directory.readUInt32LE(position + 20),
+      crc32: directory.readUInt32LE(position + 16),
+      method: directory.readUInt16LE(position + 10),
+      flags: directory.readUInt16LE(position + 8),
+      offset: directory.readUInt32LE(position + 42),
+      isDirectory: name.endsWith('/'),
+    };
+    applyZip64Extra(entry, extra);
+    entries.push(entry);
+
+    position = nameStart + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Replace 32-bit sizes and offset saturated at 0xFFFFFFFF with their zip64 values
+ */
+function applyZip64Extra(entry: ZipEntry, extra: Buffer): void {
+  for (let i = 0; i + 4 <= extra.length; ) {
+    const id = extra.readUInt16LE(i);
+    const length = extra.readUInt16LE(i + 2);
+
+    if (id === ZIP64_EXTRA_ID) {
+      let field = i + 4;
+      for (const key of ['size', 'compressedSize', 'offset'] as const) {
+        if (entry[key] === 0xffffffff && field + 8 <= i + 4 + length) {
+          entry[key] = Number(extra.readBigUInt64LE(field));
+          field += 8;
+        }
+      }
+      return;
+    }
+
+    i += 4 + length;
+  }
+}
+
+/**
+ * Pass entry content through, failing when it runs past the size in the
+ * header or does not match the size and CRC once complete
+ */
+function createEntryCheck(entry: ZipEntry): Transform {
+  let size = 0;
+  let crc = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > entry.size) {
+        callback(corrupted(entry, 'larger than its header says'));
+        return;
+      }
+      crc = updateCrc32(crc, chunk);
+      callback(null, chunk);
+    },
+    flush(callback) {
+      callback(size === entry.size && crc === entry.crc32 ? null : corrupted(entry, 'checksum mismatch'));
+    },
+  });
+}
+
+/**
+ * Error for entry content that does not match its header
+ */
+function corrupted(entry: ZipEntry, reason: string): SyncKitError {
+  return new SyncKitError('ARCHIVE_CORRUPTED', `Entry ${entry.name} is corrupted: ${reason}`);
+}
+
+/**
+ * Continue a CRC-32 over more data
+ */
+function updateCrc32(crc: number, data: Buffer): number {
+  let value = ~crc;
+  for (const byte of data) {
+    value = CRC_TABLE[(value ^ byte) & 0xff] ^ (value >>> 8);
+  }
+  return ~value >>> 0;
+}
+
+/**
+ * Build the CRC-32 lookup table
+ */
+function createCrcTable(): Int32Array {
+  const table = new Int32Array(256);
+
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+
+  return table;
+}
@@ -0,0 +1,43 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+/**
+ * Temporary git repository with a committed set of files
+ */
+export interface TestRepo {
+  dir: string;
+  git: (...args: string[]) => string;
+  write: (path: string, content: string) => void;
+  commit: (message: string) => void;
+  remove: () => void;
+}
+
+/**
+ * Create a git repository in a temp dir and commit the given files
+ */
+export function createRepo(files: Record<string, string> = {}): TestRepo {
+  const dir = mkdtempSync(join(tmpdir(), 'sync-kit-test-'));
+  const git = (...args: string[]): string =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: dir,
+      encoding: 'utf-8',
+    });
+  const write = (path: string, content: string): void => {
+    mkdirSync(dirname(join(dir, path)), { recursive: true });
+    writeFileSync(join(dir, path), content);
+  };
+  const commit = (message: string): void => {
+    git('add', '-A');
+    git('commit', '-q', '--allow-empty', '-m', message);
+  };
+
+  git('init', '-q');
+  for (const [path, content] of Object.entries(files)) {
+    write(path, content);
+  }
+  commit('initial');
+
+  return { dir, git, write, commit, remove: () => rmSync(dir, { recursive: true, force: true }) };
+}
@@ -0,0 +1,65 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { join } from 'node:path';
+import { exportChanges } from '../src/api/export.js';
+import { importArchive } from '../src/api/import.js';
+import { loadConfig } from '../src/core/config.js';
+import { loadLastImport } from '../src/core/history.js';
+import { EXIT_CODES } from '../src/utils/errors.js';
+import { createRepo, TestRepo } from './helpers.js';
+
+const BIN = join(import.meta.dirname, '..', 'src', 'bin.ts');
+/** The CLI runs in the target repository, where tsx cannot be resolved by name */
+const TSX = import.meta.resolve('tsx');
+
+describe('importArchive with every operation skipped', () => {
+  let source: TestRepo;
+  let target: TestRepo;
+
+  afterEach(() => {
+    source.remove();
+    target.remove();
+  });
+
+  /**
+   * Export a change to a.txt that conflicts with a local edit in the target
+   */
+  async function exportConflicting(): Promise<{ archivePath: string; id: string }> {
+    source = createRepo({ 'a.txt': 'one\n' });
+    target = createRepo({ 'a.txt': 'one\n' });
+    source.write('a.txt', 'from source\n');
+    target.write('a.txt', 'local edit\n');
+
+    const result = await exportChanges({ cwd: source.dir, mode: 'changes', output: join(source.dir, 'out.zip') });
+    assert.ok(result);
+    return { archivePath: result.archivePath, id: result.manifest.id };
+  }
+
+  it('records the archive as imported', async () => {
+    const { archivePath, id } = await exportConflicting();
+
+    const result = await importArchive(archivePath, { target: target.dir, onConflict: 'skip' });
+
+    assert.ok(result);
+    assert.equal(result.applied.length, 0);
+    assert.deepEqual(
+      result.skipped.map((op) => op.path),
+      ['a.txt']
+    );
+    const { values: config } = await loadConfig(target.dir);
+    assert.equal(await loadLastImport(target.dir, config), id);
+  });
+
+  it('exits with the partial code', async () => {
+    const { archivePath } = await exportConflicting();
+
+    const run = spawnSync(
+      process.execPath,
+      ['--import', TSX, BIN, 'import', archivePath, '--on-conflict', 'skip', '--no-backup'],
+      { cwd: target.dir, encoding: 'utf-8' }
+    );
+
+    assert.equal(run.status, EXIT_CODES.partial, run.stdout + run.stderr);
+  });
+});